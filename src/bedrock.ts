@@ -0,0 +1,35 @@
+import type { NamedTag } from "./tags";
+import { NBTParser } from "./parser/nbt";
+import { NBTDumper } from "./dump";
+
+const HEADER_SIZE = 8;
+
+export interface BedrockLevel extends NamedTag {
+  storageVersion: number;
+}
+
+export function parseBedrockLevel(data: Uint8Array): BedrockLevel {
+  if (data.length < HEADER_SIZE) throw new Error("unexpected end of file");
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const storageVersion = view.getInt32(0, true);
+  const length = view.getInt32(4, true);
+
+  if (length !== data.length - HEADER_SIZE)
+    throw new Error(`header declares ${length} bytes of data, found ${data.length - HEADER_SIZE}`);
+
+  const root = new NBTParser(data.subarray(HEADER_SIZE), { encoding: "little-endian" }).parse();
+  return { storageVersion, ...root };
+}
+
+export function dumpBedrockLevel(level: BedrockLevel): Uint8Array {
+  const body = new NBTDumper(level, { encoding: "little-endian" }).dump();
+  const output = new Uint8Array(HEADER_SIZE + body.length);
+  const view = new DataView(output.buffer);
+
+  view.setInt32(0, level.storageVersion, true);
+  view.setInt32(4, body.length, true);
+  output.set(body, HEADER_SIZE);
+
+  return output;
+}
@@ -0,0 +1,88 @@
+import { HOST_LITTLE_ENDIAN } from "./util";
+
+// the number of bits needed to store indices into a palette of this size
+export function bitsFor(size: number): number {
+  return size <= 1 ? 0 : 32 - Math.clz32(size - 1);
+}
+
+/*
+ * values of a fixed bit width packed into longs, starting at the lowest bit. before 1.16 values were packed back to
+ * back and could span two longs, since then every long holds a whole number of values and the rest is padding
+ */
+export class PackedArray {
+  readonly data: BigInt64Array;
+  // the longs as a little endian stream of 32 bit words, the low half of a long comes first
+  private words: Uint32Array;
+  private swap = HOST_LITTLE_ENDIAN ? 0 : 1;
+  private valuesPerLong: number;
+
+  constructor(
+    readonly bits: number,
+    readonly length: number,
+    readonly aligned: boolean = false,
+    data?: BigInt64Array,
+  ) {
+    if (!Number.isInteger(bits) || bits < 1 || bits > 32) throw new Error(`cannot pack ${bits} bit values`);
+
+    const longs = PackedArray.longsFor(bits, length, aligned);
+    if (data && data.length < longs)
+      throw new Error(`expected ${longs} longs for ${length} values but got ${data.length}`);
+
+    this.data = data ?? new BigInt64Array(longs);
+    this.words = new Uint32Array(this.data.buffer, this.data.byteOffset, this.data.length * 2);
+    this.valuesPerLong = Math.floor(64 / bits);
+  }
+
+  static longsFor(bits: number, length: number, aligned: boolean = false): number {
+    return aligned ? Math.ceil(length / Math.floor(64 / bits)) : Math.ceil((length * bits) / 64);
+  }
+
+  private position(index: number): number {
+    if (!this.aligned) return index * this.bits;
+    return Math.floor(index / this.valuesPerLong) * 64 + (index % this.valuesPerLong) * this.bits;
+  }
+
+  get(index: number): number {
+    const bit = this.position(index);
+    const word = bit >>> 5;
+    const offset = bit & 31;
+
+    let value = this.words[word ^ this.swap] >>> offset;
+    if (offset + this.bits > 32) value |= this.words[(word + 1) ^ this.swap] << (32 - offset);
+
+    return this.bits === 32 ? value >>> 0 : value & ((1 << this.bits) - 1);
+  }
+
+  set(index: number, value: number) {
+    const limit = 2 ** this.bits;
+    if (!Number.isInteger(value) || value < 0 || value >= limit)
+      throw new Error(`${value} does not fit in ${this.bits} bits`);
+
+    const bit = this.position(index);
+    const word = bit >>> 5;
+    const offset = bit & 31;
+    const mask = this.bits === 32 ? 0xffffffff : (1 << this.bits) - 1;
+
+    this.words[word ^ this.swap] = (this.words[word ^ this.swap] & ~(mask << offset)) | (value << offset);
+
+    if (offset + this.bits > 32) {
+      const next = (word + 1) ^ this.swap;
+      this.words[next] = (this.words[next] & ~(mask >>> (32 - offset))) | (value >>> (32 - offset));
+    }
+  }
+}
+
+export function unpackBits(data: BigInt64Array, bits: number, count: number, aligned: boolean = false): Uint32Array {
+  const packed = new PackedArray(bits, count, aligned, data);
+  const values = new Uint32Array(count);
+
+  for (let i = 0; i < count; i++) values[i] = packed.get(i);
+  return values;
+}
+
+export function packBits(values: ArrayLike<number>, bits: number, aligned: boolean = false): BigInt64Array {
+  const packed = new PackedArray(bits, values.length, aligned);
+
+  for (let i = 0; i < values.length; i++) packed.set(i, values[i]);
+  return packed.data;
+}
@@ -0,0 +1,151 @@
+import * as codecs from "./codec";
+import type { Tag } from "./tags";
+import type { PathSegment } from "./util";
+
+export interface BlockState {
+  name: string;
+  properties: Record<string, string>;
+}
+
+export type Rotation = "none" | "clockwise_90" | "clockwise_180" | "counterclockwise_90";
+export type Mirror = "none" | "left_right" | "front_back";
+
+export const QUARTER_TURNS: Record<Rotation, number> = {
+  none: 0,
+  clockwise_90: 1,
+  clockwise_180: 2,
+  counterclockwise_90: 3,
+};
+
+// clockwise when looking down, so a quarter turn moves a direction one step along
+const HORIZONTAL_DIRECTIONS = ["north", "east", "south", "west"];
+
+// the order the game names rail shapes in, north_south and south_east but never east_south
+const RAIL_DIRECTION_ORDER = ["north", "south", "east", "west"];
+
+// properties whose values name directions or a handedness
+const DIRECTIONAL_PROPERTIES = new Set(["facing", "shape", "hinge", "type", "orientation"]);
+
+const BLOCK_STATE_RE = /^([^\[\]]+)(?:\[([^\[\]]*)\])?$/;
+
+// like the game's own debug names, minecraft:oak_stairs[facing=east,half=bottom]
+export function stringifyBlockState(state: BlockState): string {
+  const properties = Object.entries(state.properties).map(([key, value]) => `${key}=${value}`);
+  return properties.length > 0 ? `${state.name}[${properties.join(",")}]` : state.name;
+}
+
+export function parseBlockState(source: string): BlockState {
+  const match = BLOCK_STATE_RE.exec(source.trim());
+  if (!match) throw new Error(`invalid block state '${source}'`);
+
+  const properties: Record<string, string> = {};
+
+  for (const property of match[2] ? match[2].split(",") : []) {
+    const separator = property.indexOf("=");
+    if (separator <= 0) throw new Error(`invalid block state '${source}'`);
+
+    properties[property.slice(0, separator).trim()] = property.slice(separator + 1).trim();
+  }
+
+  return { name: match[1].trim(), properties };
+}
+
+// a key that is the same for states with the same name and properties, whatever order the properties are in
+export function blockStateKey(state: BlockState): string {
+  const properties = Object.keys(state.properties)
+    .sort()
+    .map((key) => `${key}=${state.properties[key]}`);
+
+  return `${state.name}[${properties.join(",")}]`;
+}
+
+export function cloneBlockState(state: BlockState): BlockState {
+  return { name: state.name, properties: { ...state.properties } };
+}
+
+const BLOCK_STATE_ENTRY = codecs.compound({
+  Name: codecs.string,
+  Properties: codecs.optional(codecs.map(codecs.string)),
+});
+
+class BlockStateCodec extends codecs.Codec<BlockState> {
+  read(tag: Tag, path: PathSegment[]): BlockState {
+    const entry = BLOCK_STATE_ENTRY.read(tag, path);
+    return { name: entry.Name, properties: { ...entry.Properties } };
+  }
+
+  write(state: BlockState, path: PathSegment[]): Tag {
+    const properties = Object.keys(state.properties).length > 0 ? { ...state.properties } : undefined;
+    return BLOCK_STATE_ENTRY.write({ Name: state.name, Properties: properties }, path);
+  }
+}
+
+// the {Name, Properties} compounds palettes store block states as, blocks without properties leave the key out
+export const blockStateCodec: codecs.Codec<BlockState> = new BlockStateCodec();
+
+class StateTransform {
+  constructor(
+    private turns: number,
+    private mirror: Mirror,
+  ) {}
+
+  direction(direction: string): string {
+    let index = HORIZONTAL_DIRECTIONS.indexOf(direction);
+    if (index < 0) return direction;
+
+    // left_right flips the z axis and front_back the x axis
+    if ((this.mirror === "left_right" && index % 2 === 0) || (this.mirror === "front_back" && index % 2 === 1))
+      index += 2;
+
+    return HORIZONTAL_DIRECTIONS[(index + this.turns) % 4];
+  }
+
+  // rotation values count sixteenths of a turn clockwise from south
+  rotation(value: number): number {
+    if (this.mirror === "left_right") value = (24 - value) % 16;
+    else if (this.mirror === "front_back") value = (16 - value) % 16;
+
+    return (value + this.turns * 4) % 16;
+  }
+
+  value(value: string): string {
+    const parts = value.split("_").map((part) => {
+      if (this.mirror !== "none" && part === "left") return "right";
+      if (this.mirror !== "none" && part === "right") return "left";
+
+      return this.direction(part);
+    });
+
+    if (parts.length === 2 && parts.every((part) => RAIL_DIRECTION_ORDER.includes(part)))
+      parts.sort((a, b) => RAIL_DIRECTION_ORDER.indexOf(a) - RAIL_DIRECTION_ORDER.indexOf(b));
+
+    return parts.join("_");
+  }
+
+  apply(state: BlockState): BlockState {
+    const properties: Record<string, string> = {};
+
+    for (const [key, value] of Object.entries(state.properties)) {
+      if (HORIZONTAL_DIRECTIONS.includes(key)) properties[this.direction(key)] = value;
+      else if (key === "axis" && this.turns % 2 === 1)
+        properties[key] = value === "x" ? "z" : value === "z" ? "x" : value;
+      else if (key === "rotation" && /^\d+$/.test(value)) properties[key] = `${this.rotation(Number(value))}`;
+      else if (DIRECTIONAL_PROPERTIES.has(key)) properties[key] = this.value(value);
+      else properties[key] = value;
+    }
+
+    return { name: state.name, properties };
+  }
+}
+
+/*
+ * covers the properties shared by vanilla blocks: facing, axis, rotation, the north/east/south/west connections,
+ * stair and rail shapes, door hinges, chest halves and jigsaw orientations
+ */
+export function rotateBlockState(state: BlockState, rotation: Rotation): BlockState {
+  return new StateTransform(QUARTER_TURNS[rotation], "none").apply(state);
+}
+
+export function mirrorBlockState(state: BlockState, mirror: Mirror): BlockState {
+  return new StateTransform(0, mirror).apply(state);
+}
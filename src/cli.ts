@@ -0,0 +1,300 @@
+#!/usr/bin/env node
+import { readFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import * as NBT from "./index";
+
+const USAGE = `usage: basalt-nbt <command> [options] [file]
+
+commands:
+  convert [file]              convert between formats, to snbt by default
+  print [file]                print as pretty snbt
+  get <path> [file]           print every tag the path selects
+  set <path> <snbt> [file]    set the tags at the path and write the result in the input's format
+  diff <file> <file>          print the changes from the first file to the second
+  validate [file]             check that the file parses
+
+files are read from stdin when left out or given as -, output goes to stdout
+
+options:
+  --from <nbt|snbt|json>      input format, detected by default
+  --to <nbt|snbt|json>        output format
+  --compression <none|gzip|zlib>
+                              output compression, nbt input keeps its own by default
+  --endian <big|little|varint>
+                              nbt encoding, big endian java nbt by default
+  --out-endian <big|little|varint>
+                              nbt encoding of the output, --endian by default
+  --network                   nbt without a root name, as sent by java servers since 1.20.2
+  --json-format <typed|compat>
+                              json output format, typed by default
+  --indent <n>                spaces per level of pretty snbt, 2 by default
+  --sort-keys                 sort compound keys in snbt output
+  -h, --help                  show this message`;
+
+type Format = "nbt" | "snbt" | "json";
+
+const FORMATS: Format[] = ["nbt", "snbt", "json"];
+const COMPRESSIONS: NBT.Compression[] = ["none", "gzip", "zlib"];
+const ENCODINGS: Record<string, NBT.NBTEncoding> = { big: "big-endian", little: "little-endian", varint: "varint" };
+const JSON_FORMATS: NBT.JSONFormat[] = ["typed", "compat"];
+
+interface Document {
+  name: string;
+  tag: NBT.Tag;
+  format: Format;
+  compression: NBT.Compression;
+}
+
+interface Options {
+  from?: Format;
+  to?: Format;
+  compression?: NBT.Compression;
+  encoding: NBT.NBTEncoding;
+  outputEncoding: NBT.NBTEncoding;
+  network: boolean;
+  jsonFormat: NBT.JSONFormat;
+  indent: number;
+  sortKeys: boolean;
+}
+
+// wrong usage exits with 2, failures with 1
+class UsageError extends Error {}
+
+function choice<T extends string>(option: string, value: string | undefined, choices: readonly T[]): T | undefined {
+  if (value === undefined) return undefined;
+  if (!choices.includes(value as T)) throw new UsageError(`--${option} must be one of ${choices.join(", ")}`);
+
+  return value as T;
+}
+
+async function readInput(file: string | undefined): Promise<Uint8Array> {
+  if (file !== undefined && file !== "-") return new Uint8Array(await readFile(file));
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk);
+
+  return new Uint8Array(Buffer.concat(chunks));
+}
+
+// where the payload of an uncompressed root tag starts, after its id and name
+function payloadOffset(data: Uint8Array, options: Options): number {
+  if (options.network) return 1;
+  if (options.encoding === "big-endian") return 3 + ((data[1] << 8) | data[2]);
+  if (options.encoding === "little-endian") return 3 + (data[1] | (data[2] << 8));
+
+  let length = 0;
+  let offset = 1;
+
+  for (let shift = 0; offset < data.length && shift < 35; shift += 7) {
+    const byte = data[offset++];
+    length |= (byte & 0x7f) << shift;
+    if ((byte & 0x80) === 0) return offset + length;
+  }
+
+  return Infinity;
+}
+
+function isBinary(data: Uint8Array, options: Options): boolean {
+  // compressed data or a tag id byte, text formats start with printable characters or whitespace
+  if (NBT.detectCompression(data) !== "none") return true;
+  if (data.length === 0 || data[0] > 0x0c) return false;
+
+  // a tab or a newline is also the id of a list or a compound, whose payload starts with a tag id after the name
+  if (data[0] !== 0x09 && data[0] !== 0x0a) return true;
+
+  const offset = payloadOffset(data, options);
+  return offset < data.length && data[offset] <= 0x0c;
+}
+
+function readJSON(text: string): NBT.NamedTag {
+  const json = JSON.parse(text);
+  const name = typeof json?.name === "string" ? json.name : "";
+
+  try {
+    return { name, tag: NBT.fromJSON(json, { format: "typed" }) };
+  } catch (error) {
+    // compat json is only tried when the typed format doesn't fit
+    try {
+      return { name, tag: NBT.fromJSON(json, { format: "compat" }) };
+    } catch {
+      throw error;
+    }
+  }
+}
+
+function detectFormat(data: Uint8Array, options: Options): Format {
+  if (isBinary(data, options)) return "nbt";
+
+  const text = new TextDecoder().decode(data).trimStart();
+  if (!text.startsWith("{")) return "snbt";
+
+  // typed and compat json always have a type field, snbt keys are rarely quoted
+  try {
+    const json = JSON.parse(text);
+    return typeof json === "object" && json !== null && "type" in json ? "json" : "snbt";
+  } catch {
+    return "snbt";
+  }
+}
+
+async function readDocument(file: string | undefined, options: Options): Promise<Document> {
+  const data = await readInput(file);
+  const format = options.from ?? detectFormat(data, options);
+
+  if (format === "nbt") {
+    const root = NBT.parseNBT(data, { encoding: options.encoding, network: options.network });
+    return { ...root, format, compression: NBT.detectCompression(data) };
+  }
+
+  const text = new TextDecoder().decode(data);
+  if (format === "json") return { ...readJSON(text), format, compression: "none" };
+
+  return { name: "", tag: NBT.parseSNBT(text.trim()), format, compression: "none" };
+}
+
+function prettySNBT(tag: NBT.Tag, options: Options): string {
+  return tag.stringify({ indent: options.indent, sortKeys: options.sortKeys });
+}
+
+function writeDocument(document: Document, format: Format, options: Options) {
+  if (format === "nbt") {
+    const compression = options.compression ?? (document.format === "nbt" ? document.compression : "none");
+
+    process.stdout.write(
+      NBT.dump(
+        { name: document.name, tag: document.tag },
+        { encoding: options.outputEncoding, network: options.network, compression },
+      ),
+    );
+  } else if (format === "json") {
+    const json = NBT.toJSON({ name: document.name, tag: document.tag }, { format: options.jsonFormat });
+    process.stdout.write(`${JSON.stringify(json, null, options.indent || undefined)}\n`);
+  } else {
+    process.stdout.write(`${prettySNBT(document.tag, options)}\n`);
+  }
+}
+
+function expectArguments(command: string, positionals: string[], min: number, max: number) {
+  if (positionals.length < min || positionals.length > max) throw new UsageError(`wrong arguments for ${command}`);
+}
+
+async function run(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      from: { type: "string" },
+      to: { type: "string" },
+      compression: { type: "string" },
+      endian: { type: "string" },
+      "out-endian": { type: "string" },
+      network: { type: "boolean", default: false },
+      "json-format": { type: "string" },
+      indent: { type: "string" },
+      "sort-keys": { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  const [command, ...args] = positionals;
+
+  if (values.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return 0;
+  }
+
+  if (command === undefined) {
+    process.stderr.write(`${USAGE}\n`);
+    return 2;
+  }
+
+  const indent = values.indent === undefined ? 2 : Number(values.indent);
+  if (!Number.isInteger(indent) || indent < 0) throw new UsageError("--indent must be a whole number");
+
+  const encoding = ENCODINGS[choice("endian", values.endian, Object.keys(ENCODINGS)) ?? "big"];
+  const outEndian = choice("out-endian", values["out-endian"], Object.keys(ENCODINGS));
+
+  const options: Options = {
+    from: choice("from", values.from, FORMATS),
+    to: choice("to", values.to, FORMATS),
+    compression: choice("compression", values.compression, COMPRESSIONS),
+    encoding,
+    outputEncoding: outEndian === undefined ? encoding : ENCODINGS[outEndian],
+    network: values.network,
+    jsonFormat: choice("json-format", values["json-format"], JSON_FORMATS) ?? "typed",
+    indent,
+    sortKeys: values["sort-keys"],
+  };
+
+  switch (command) {
+    case "convert": {
+      expectArguments(command, args, 0, 1);
+      writeDocument(await readDocument(args[0], options), options.to ?? "snbt", options);
+      return 0;
+    }
+
+    case "print": {
+      expectArguments(command, args, 0, 1);
+      process.stdout.write(`${prettySNBT((await readDocument(args[0], options)).tag, options)}\n`);
+      return 0;
+    }
+
+    case "get": {
+      expectArguments(command, args, 1, 2);
+
+      const path = new NBT.NBTPath(args[0]);
+      const found = path.get((await readDocument(args[1], options)).tag);
+
+      for (const tag of found) process.stdout.write(`${prettySNBT(tag, options)}\n`);
+      // nothing selected is a failure so scripts can check for a tag
+      return found.length > 0 ? 0 : 1;
+    }
+
+    case "set": {
+      expectArguments(command, args, 2, 3);
+
+      const path = new NBT.NBTPath(args[0]);
+      const value = NBT.parseSNBT(args[1]);
+      const document = await readDocument(args[2], options);
+
+      if (path.set(document.tag, value) === 0) throw new Error(`'${args[0]}' does not select anything to set`);
+
+      writeDocument(document, options.to ?? document.format, options);
+      return 0;
+    }
+
+    case "diff": {
+      expectArguments(command, args, 2, 2);
+      if (args[0] === "-" && args[1] === "-") throw new UsageError("only one of the files can be stdin");
+
+      const patch = NBT.diff((await readDocument(args[0], options)).tag, (await readDocument(args[1], options)).tag);
+      if (patch.length > 0) process.stdout.write(`${NBT.renderPatch(patch)}\n`);
+
+      // like diff(1), differences exit with 1
+      return patch.length > 0 ? 1 : 0;
+    }
+
+    case "validate": {
+      expectArguments(command, args, 0, 1);
+
+      const document = await readDocument(args[0], options);
+      process.stdout.write(`valid ${document.format}\n`);
+      return 0;
+    }
+
+    default:
+      throw new UsageError(`unknown command '${command}'`);
+  }
+}
+
+run(process.argv.slice(2)).then(
+  (code) => (process.exitCode = code),
+  (error) => {
+    const usage = error instanceof UsageError || (error as { code?: string }).code?.startsWith("ERR_PARSE_ARGS");
+
+    process.stderr.write(`basalt-nbt: ${error instanceof Error ? error.message : error}\n`);
+    if (usage) process.stderr.write("run basalt-nbt --help for usage\n");
+
+    process.exitCode = usage ? 2 : 1;
+  },
+);
@@ -0,0 +1,427 @@
+import * as tags from "./tags";
+import { CodecError } from "./errors";
+import { describeValue, INTEGER_RANGES, stringifyPath, type PathSegment } from "./util";
+
+function fail(reason: string, path: PathSegment[]): never {
+  throw new CodecError(reason, stringifyPath(path));
+}
+
+function describeTag(tag: tags.Tag): string {
+  return tag.constructor.name;
+}
+
+function withArticle(word: string): string {
+  return /^[aeiou]/.test(word) ? `an ${word}` : `a ${word}`;
+}
+
+function isIntegerTag(tag: tags.Tag): tag is tags.LiteralTag<number | bigint> {
+  return (
+    tag instanceof tags.ByteTag ||
+    tag instanceof tags.ShortTag ||
+    tag instanceof tags.IntTag ||
+    tag instanceof tags.LongTag
+  );
+}
+
+// decode turns a tag into a typed value and encode goes back, both throw a CodecError pointing at the bad value
+export abstract class Codec<T> {
+  // read and write take the path of the value so nested codecs can report where they failed
+  abstract read(tag: tags.Tag, path: PathSegment[]): T;
+  abstract write(value: T, path: PathSegment[]): tags.Tag;
+
+  // the type of tag write always produces, if there is only one, so an empty list still gets its element type
+  get tagType(): tags.Tags | undefined {
+    return undefined;
+  }
+
+  decode(tag: tags.Tag): T {
+    return this.read(tag, []);
+  }
+
+  encode(value: T): tags.Tag {
+    return this.write(value, []);
+  }
+}
+
+export type CodecType<C> = C extends Codec<infer T> ? T : never;
+
+class IntegerCodec extends Codec<number> {
+  constructor(
+    private type: "byte" | "short" | "int",
+    private Tag: new (value: number) => tags.LiteralTag<number>,
+  ) {
+    super();
+  }
+
+  get tagType(): tags.Tags {
+    return new this.Tag(0).getId();
+  }
+
+  read(tag: tags.Tag, path: PathSegment[]): number {
+    // like the game, any integer tag is accepted as long as the value fits
+    if (!isIntegerTag(tag)) fail(`expected ${withArticle(this.type)} but got ${describeTag(tag)}`, path);
+
+    const value = Number(tag.getValue());
+    const [min, max] = INTEGER_RANGES[this.type];
+
+    if (value < min || value > max) fail(`${tag.getValue()} is out of range for ${withArticle(this.type)}`, path);
+    return value;
+  }
+
+  write(value: number, path: PathSegment[]): tags.Tag {
+    const [min, max] = INTEGER_RANGES[this.type];
+
+    if (typeof value !== "number" || !Number.isInteger(value))
+      fail(`expected an integer but got ${describeValue(value)}`, path);
+    if (value < min || value > max) fail(`${value} is out of range for ${withArticle(this.type)}`, path);
+
+    return new this.Tag(value);
+  }
+}
+
+class LongCodec extends Codec<bigint> {
+  get tagType(): tags.Tags {
+    return tags.Tags.TAG_Long;
+  }
+
+  read(tag: tags.Tag, path: PathSegment[]): bigint {
+    if (isIntegerTag(tag)) return BigInt(tag.getValue());
+
+    fail(`expected a long but got ${describeTag(tag)}`, path);
+  }
+
+  write(value: bigint, path: PathSegment[]): tags.Tag {
+    if (typeof value !== "bigint") fail(`expected a bigint but got ${describeValue(value)}`, path);
+    if (value !== BigInt.asIntN(64, value)) fail(`${value} is out of range for a long`, path);
+
+    return new tags.LongTag(value);
+  }
+}
+
+class FloatingCodec extends Codec<number> {
+  constructor(private type: "float" | "double") {
+    super();
+  }
+
+  get tagType(): tags.Tags {
+    return this.type === "float" ? tags.Tags.TAG_Float : tags.Tags.TAG_Double;
+  }
+
+  read(tag: tags.Tag, path: PathSegment[]): number {
+    if (tag instanceof tags.LiteralTag && typeof tag.getValue() !== "string") return Number(tag.getValue());
+    fail(`expected ${withArticle(this.type)} but got ${describeTag(tag)}`, path);
+  }
+
+  write(value: number, path: PathSegment[]): tags.Tag {
+    if (typeof value !== "number") fail(`expected a number but got ${describeValue(value)}`, path);
+    return this.type === "float" ? new tags.FloatTag(Math.fround(value)) : new tags.DoubleTag(value);
+  }
+}
+
+class StringCodec extends Codec<string> {
+  get tagType(): tags.Tags {
+    return tags.Tags.TAG_String;
+  }
+
+  read(tag: tags.Tag, path: PathSegment[]): string {
+    if (!(tag instanceof tags.StringTag)) fail(`expected a string but got ${describeTag(tag)}`, path);
+    return tag.getValue();
+  }
+
+  write(value: string, path: PathSegment[]): tags.Tag {
+    if (typeof value !== "string") fail(`expected a string but got ${describeValue(value)}`, path);
+    return new tags.StringTag(value);
+  }
+}
+
+class BooleanCodec extends Codec<boolean> {
+  get tagType(): tags.Tags {
+    return tags.Tags.TAG_Byte;
+  }
+
+  read(tag: tags.Tag, path: PathSegment[]): boolean {
+    if (!(tag instanceof tags.ByteTag)) fail(`expected a byte but got ${describeTag(tag)}`, path);
+    return tag.getValue() !== 0;
+  }
+
+  write(value: boolean, path: PathSegment[]): tags.Tag {
+    if (typeof value !== "boolean") fail(`expected a boolean but got ${describeValue(value)}`, path);
+    return new tags.ByteTag(value ? 1 : 0);
+  }
+}
+
+class ArrayCodec<T extends Int8Array | Int32Array | BigInt64Array> extends Codec<T> {
+  constructor(
+    private name: string,
+    private Tag: new (items: T) => tags.ArrayTag<T>,
+    private Array: { new (length: number): T },
+  ) {
+    super();
+  }
+
+  get tagType(): tags.Tags {
+    return new this.Tag(new this.Array(0)).getId();
+  }
+
+  read(tag: tags.Tag, path: PathSegment[]): T {
+    if (!(tag instanceof this.Tag)) fail(`expected ${withArticle(this.name)} but got ${describeTag(tag)}`, path);
+    return tag.getValues().slice() as T;
+  }
+
+  write(value: T, path: PathSegment[]): tags.Tag {
+    if (!(value instanceof this.Array)) fail(`expected ${this.Array.name} but got ${describeValue(value)}`, path);
+    return new this.Tag(value);
+  }
+}
+
+class CompoundTagCodec extends Codec<tags.CompoundTag> {
+  get tagType(): tags.Tags {
+    return tags.Tags.TAG_Compound;
+  }
+
+  read(tag: tags.Tag, path: PathSegment[]): tags.CompoundTag {
+    if (!(tag instanceof tags.CompoundTag)) fail(`expected a compound but got ${describeTag(tag)}`, path);
+    return tag;
+  }
+
+  write(value: tags.CompoundTag, path: PathSegment[]): tags.Tag {
+    if (!(value instanceof tags.CompoundTag)) fail(`expected a CompoundTag but got ${describeValue(value)}`, path);
+    return value;
+  }
+}
+
+export class OptionalCodec<T> extends Codec<T | undefined> {
+  readonly optional = true;
+
+  constructor(private codec: Codec<T>) {
+    super();
+  }
+
+  get tagType(): tags.Tags | undefined {
+    return this.codec.tagType;
+  }
+
+  read(tag: tags.Tag, path: PathSegment[]): T {
+    return this.codec.read(tag, path);
+  }
+
+  write(value: T | undefined, path: PathSegment[]): tags.Tag {
+    if (value === undefined) fail("optional values can only be left out inside a compound", path);
+    return this.codec.write(value, path);
+  }
+}
+
+class DefaultedCodec<T> extends Codec<T> {
+  // the default is kept encoded so every missing key decodes to a fresh value
+  private defaultTag: tags.Tag;
+
+  constructor(
+    private codec: Codec<T>,
+    defaultValue: T,
+  ) {
+    super();
+    this.defaultTag = codec.write(defaultValue, []);
+  }
+
+  get tagType(): tags.Tags | undefined {
+    return this.codec.tagType;
+  }
+
+  createDefault(path: PathSegment[]): T {
+    return this.codec.read(this.defaultTag.clone(), path);
+  }
+
+  read(tag: tags.Tag, path: PathSegment[]): T {
+    return this.codec.read(tag, path);
+  }
+
+  write(value: T, path: PathSegment[]): tags.Tag {
+    return this.codec.write(value, path);
+  }
+}
+
+type Fields = Record<string, Codec<any>>;
+
+type OptionalKeys<F extends Fields> = { [K in keyof F]: F[K] extends OptionalCodec<any> ? K : never }[keyof F];
+
+export type CompoundValue<F extends Fields> = {
+  [K in Exclude<keyof F, OptionalKeys<F>>]: CodecType<F[K]>;
+} & {
+  [K in OptionalKeys<F>]?: CodecType<F[K]>;
+};
+
+class CompoundCodec<F extends Fields> extends Codec<CompoundValue<F>> {
+  constructor(private fields: F) {
+    super();
+  }
+
+  get tagType(): tags.Tags {
+    return tags.Tags.TAG_Compound;
+  }
+
+  read(tag: tags.Tag, path: PathSegment[]): CompoundValue<F> {
+    if (!(tag instanceof tags.CompoundTag)) fail(`expected a compound but got ${describeTag(tag)}`, path);
+
+    // no prototype, so a key like __proto__ is kept as data
+    const value: Record<string, unknown> = Object.create(null);
+
+    // keys without a field are ignored
+    for (const [key, codec] of Object.entries(this.fields)) {
+      const item = tag.get(key);
+
+      if (item) value[key] = codec.read(item, [...path, key]);
+      else if (codec instanceof DefaultedCodec) value[key] = codec.createDefault([...path, key]);
+      else if (!(codec instanceof OptionalCodec)) fail(`missing key '${key}'`, path);
+    }
+
+    return value as CompoundValue<F>;
+  }
+
+  write(value: CompoundValue<F>, path: PathSegment[]): tags.Tag {
+    if (typeof value !== "object" || value === null) fail(`expected an object but got ${describeValue(value)}`, path);
+
+    const items = new Map<string, tags.Tag>();
+
+    for (const [key, codec] of Object.entries(this.fields)) {
+      const item = (value as Record<string, unknown>)[key];
+
+      if (item === undefined && codec instanceof OptionalCodec) continue;
+      items.set(key, codec.write(item, [...path, key]));
+    }
+
+    return new tags.CompoundTag(items);
+  }
+}
+
+class ListCodec<T> extends Codec<T[]> {
+  constructor(private codec: Codec<T>) {
+    super();
+  }
+
+  get tagType(): tags.Tags {
+    return tags.Tags.TAG_List;
+  }
+
+  read(tag: tags.Tag, path: PathSegment[]): T[] {
+    if (!(tag instanceof tags.ListTag)) fail(`expected a list but got ${describeTag(tag)}`, path);
+    return tag.getValues().map((item, index) => this.codec.read(item, [...path, index]));
+  }
+
+  write(value: T[], path: PathSegment[]): tags.Tag {
+    if (!Array.isArray(value)) fail(`expected an array but got ${describeValue(value)}`, path);
+    const items = value.map((item, index) => this.codec.write(item, [...path, index]));
+
+    // a union can write different tag types, which a list can't hold
+    try {
+      return new tags.ListTag(items, this.codec.tagType);
+    } catch (error) {
+      fail((error as Error).message, path);
+    }
+  }
+}
+
+class MapCodec<T> extends Codec<Record<string, T>> {
+  constructor(private codec: Codec<T>) {
+    super();
+  }
+
+  get tagType(): tags.Tags {
+    return tags.Tags.TAG_Compound;
+  }
+
+  read(tag: tags.Tag, path: PathSegment[]): Record<string, T> {
+    if (!(tag instanceof tags.CompoundTag)) fail(`expected a compound but got ${describeTag(tag)}`, path);
+
+    const value: Record<string, T> = Object.create(null);
+    for (const key of tag.list()) value[key] = this.codec.read(tag.get(key)!, [...path, key]);
+
+    return value;
+  }
+
+  write(value: Record<string, T>, path: PathSegment[]): tags.Tag {
+    if (typeof value !== "object" || value === null) fail(`expected an object but got ${describeValue(value)}`, path);
+
+    const items = new Map<string, tags.Tag>();
+    for (const [key, item] of Object.entries(value)) items.set(key, this.codec.write(item, [...path, key]));
+
+    return new tags.CompoundTag(items);
+  }
+}
+
+class UnionCodec<T> extends Codec<T> {
+  constructor(private codecs: Codec<T>[]) {
+    super();
+  }
+
+  get tagType(): tags.Tags | undefined {
+    const types = new Set(this.codecs.map((codec) => codec.tagType));
+    return types.size === 1 ? [...types][0] : undefined;
+  }
+
+  // the first alternative that succeeds wins, in both directions
+  private attempt<R>(path: PathSegment[], run: (codec: Codec<T>) => R): R {
+    const reasons: string[] = [];
+
+    for (const codec of this.codecs) {
+      try {
+        return run(codec);
+      } catch (error) {
+        if (!(error instanceof CodecError)) throw error;
+        reasons.push(error.reason);
+      }
+    }
+
+    fail(`no alternative matched: ${reasons.join("; ")}`, path);
+  }
+
+  read(tag: tags.Tag, path: PathSegment[]): T {
+    return this.attempt(path, (codec) => codec.read(tag, path));
+  }
+
+  write(value: T, path: PathSegment[]): tags.Tag {
+    return this.attempt(path, (codec) => codec.write(value, path));
+  }
+}
+
+export const byte: Codec<number> = new IntegerCodec("byte", tags.ByteTag);
+export const short: Codec<number> = new IntegerCodec("short", tags.ShortTag);
+export const int: Codec<number> = new IntegerCodec("int", tags.IntTag);
+export const long: Codec<bigint> = new LongCodec();
+export const float: Codec<number> = new FloatingCodec("float");
+export const double: Codec<number> = new FloatingCodec("double");
+export const string: Codec<string> = new StringCodec();
+// a byte that is 0 or 1, how the game stores booleans
+export const boolean: Codec<boolean> = new BooleanCodec();
+export const byteArray: Codec<Int8Array> = new ArrayCodec("byte array", tags.ByteArrayTag, Int8Array);
+export const intArray: Codec<Int32Array> = new ArrayCodec("int array", tags.IntArrayTag, Int32Array);
+export const longArray: Codec<BigInt64Array> = new ArrayCodec("long array", tags.LongArrayTag, BigInt64Array);
+
+// keeps the compound as a tag, for data that is passed through without being looked at
+export const compoundTag: Codec<tags.CompoundTag> = new CompoundTagCodec();
+
+export function compound<F extends Fields>(fields: F): Codec<CompoundValue<F>> {
+  return new CompoundCodec(fields);
+}
+
+export function list<T>(codec: Codec<T>): Codec<T[]> {
+  return new ListCodec(codec);
+}
+
+// a compound key that may be missing, it decodes to undefined and is left out when encoding undefined
+export function optional<T>(codec: Codec<T>): OptionalCodec<T> {
+  return new OptionalCodec(codec);
+}
+
+// a compound key that decodes to the default value when missing
+export function defaulted<T>(codec: Codec<T>, defaultValue: T): Codec<T> {
+  return new DefaultedCodec(codec, defaultValue);
+}
+
+export function union<C extends Codec<any>[]>(...codecs: C): Codec<CodecType<C[number]>> {
+  return new UnionCodec(codecs);
+}
+
+// a compound with arbitrary keys that all share one codec
+export function map<T>(codec: Codec<T>): Codec<Record<string, T>> {
+  return new MapCodec(codec);
+}
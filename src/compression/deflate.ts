@@ -0,0 +1,154 @@
+import { DIST_BASE, DIST_EXTRA, LENGTH_BASE, LENGTH_EXTRA } from "./inflate";
+
+const WINDOW_SIZE = 32768;
+const WINDOW_MASK = WINDOW_SIZE - 1;
+
+const HASH_BITS = 15;
+const HASH_SIZE = 1 << HASH_BITS;
+
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+const MAX_CHAIN = 64;
+
+const LENGTH_CODES = new Uint16Array(MAX_MATCH + 1);
+const DIST_CODES = new Uint8Array(WINDOW_SIZE + 1);
+
+for (let code = 0; code < LENGTH_BASE.length; code++) {
+  const end = code + 1 < LENGTH_BASE.length ? LENGTH_BASE[code + 1] : MAX_MATCH + 1;
+  for (let length = LENGTH_BASE[code]; length < end; length++) LENGTH_CODES[length] = code;
+}
+
+for (let code = 0; code < DIST_BASE.length; code++) {
+  const end = code + 1 < DIST_BASE.length ? DIST_BASE[code + 1] : WINDOW_SIZE + 1;
+  for (let dist = DIST_BASE[code]; dist < end; dist++) DIST_CODES[dist] = code;
+}
+
+class BitWriter {
+  private buffer: Uint8Array;
+  private pointer: number = 0;
+
+  private bitBuffer: number = 0;
+  private bitCount: number = 0;
+
+  constructor(sizeHint: number) {
+    this.buffer = new Uint8Array(Math.max(64, sizeHint));
+  }
+
+  private growBuffer() {
+    if (this.pointer < this.buffer.length) return;
+
+    const newBuffer = new Uint8Array(this.buffer.length * 2);
+    newBuffer.set(this.buffer);
+
+    this.buffer = newBuffer;
+  }
+
+  bits(value: number, count: number) {
+    this.bitBuffer |= value << this.bitCount;
+    this.bitCount += count;
+
+    while (this.bitCount >= 8) {
+      this.growBuffer();
+      this.buffer[this.pointer++] = this.bitBuffer & 0xff;
+
+      this.bitBuffer >>>= 8;
+      this.bitCount -= 8;
+    }
+  }
+
+  // huffman codes are packed starting from their most significant bit
+  code(code: number, length: number) {
+    let reversed = 0;
+    for (let i = 0; i < length; i++) reversed |= ((code >> i) & 1) << (length - 1 - i);
+
+    this.bits(reversed, length);
+  }
+
+  final() {
+    if (this.bitCount > 0) this.bits(0, 8 - this.bitCount);
+    return this.buffer.slice(0, this.pointer);
+  }
+}
+
+function writeLiteral(writer: BitWriter, symbol: number) {
+  if (symbol < 144) writer.code(0x30 + symbol, 8);
+  else if (symbol < 256) writer.code(0x190 + symbol - 144, 9);
+  else if (symbol < 280) writer.code(symbol - 256, 7);
+  else writer.code(0xc0 + symbol - 280, 8);
+}
+
+function writeMatch(writer: BitWriter, length: number, dist: number) {
+  const lengthCode = LENGTH_CODES[length];
+  writeLiteral(writer, 257 + lengthCode);
+  writer.bits(length - LENGTH_BASE[lengthCode], LENGTH_EXTRA[lengthCode]);
+
+  const distCode = DIST_CODES[dist];
+  writer.code(distCode, 5);
+  writer.bits(dist - DIST_BASE[distCode], DIST_EXTRA[distCode]);
+}
+
+function hashAt(data: Uint8Array, pos: number): number {
+  return ((data[pos] << 10) ^ (data[pos + 1] << 5) ^ data[pos + 2]) & (HASH_SIZE - 1);
+}
+
+// a single final block using the fixed huffman tables, matches are found through hash chains
+export function deflateRaw(data: Uint8Array): Uint8Array {
+  const writer = new BitWriter(data.length >> 1);
+  const head = new Int32Array(HASH_SIZE).fill(-1);
+  const prev = new Int32Array(WINDOW_SIZE).fill(-1);
+
+  const insert = (pos: number) => {
+    const hash = hashAt(data, pos);
+
+    prev[pos & WINDOW_MASK] = head[hash];
+    head[hash] = pos;
+  };
+
+  writer.bits(1, 1);
+  writer.bits(1, 2);
+
+  let pos = 0;
+
+  while (pos < data.length) {
+    let bestLength = 0;
+    let bestDist = 0;
+
+    if (pos + MIN_MATCH <= data.length) {
+      const maxLength = Math.min(MAX_MATCH, data.length - pos);
+      let candidate = head[hashAt(data, pos)];
+
+      for (let chain = 0; chain < MAX_CHAIN && candidate >= 0 && pos - candidate <= WINDOW_SIZE; chain++) {
+        let length = 0;
+        while (length < maxLength && data[candidate + length] === data[pos + length]) length++;
+
+        if (length > bestLength) {
+          bestLength = length;
+          bestDist = pos - candidate;
+
+          if (length === maxLength) break;
+        }
+
+        const next = prev[candidate & WINDOW_MASK];
+        if (next >= candidate) break;
+
+        candidate = next;
+      }
+    }
+
+    if (bestLength >= MIN_MATCH) {
+      writeMatch(writer, bestLength, bestDist);
+
+      for (let i = 0; i < bestLength; i++, pos++) {
+        if (pos + MIN_MATCH <= data.length) insert(pos);
+      }
+    } else {
+      writeLiteral(writer, data[pos]);
+
+      if (pos + MIN_MATCH <= data.length) insert(pos);
+      pos++;
+    }
+  }
+
+  writeLiteral(writer, 256);
+  return writer.final();
+}
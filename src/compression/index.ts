@@ -0,0 +1,247 @@
+import { inflateRaw, outputLimitError } from "./inflate";
+import { deflateRaw } from "./deflate";
+
+export type Compression = "none" | "gzip" | "zlib";
+export type CompressionFormat = Exclude<Compression, "none">;
+
+export interface CompressionCodec {
+  compress(data: Uint8Array, format: CompressionFormat): Uint8Array | Promise<Uint8Array>;
+  // should stop once the output grows past maxOutput bytes, codecs that don't are checked after decompressing
+  decompress(data: Uint8Array, format: CompressionFormat, maxOutput?: number): Uint8Array | Promise<Uint8Array>;
+}
+
+const GZIP_FLAG_HCRC = 0x02;
+const GZIP_FLAG_EXTRA = 0x04;
+const GZIP_FLAG_NAME = 0x08;
+const GZIP_FLAG_COMMENT = 0x10;
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+
+    for (let i = 0; i < 256; i++) {
+      let value = i;
+      for (let bit = 0; bit < 8; bit++) value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+
+      crcTable[i] = value;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function adler32(data: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+
+  for (let i = 0; i < data.length;) {
+    // 5552 is the largest block that cannot overflow before the modulo
+    const end = Math.min(i + 5552, data.length);
+
+    for (; i < end; i++) {
+      a += data[i];
+      b += a;
+    }
+
+    a %= 65521;
+    b %= 65521;
+  }
+
+  return ((b << 16) | a) >>> 0;
+}
+
+function gunzip(data: Uint8Array, maxOutput?: number): Uint8Array {
+  if (data.length < 18) throw new Error("unexpected end of gzip data");
+  if (data[0] !== 0x1f || data[1] !== 0x8b) throw new Error("invalid gzip header");
+  if (data[2] !== 8) throw new Error(`unsupported gzip compression method '${data[2]}'`);
+
+  const flags = data[3];
+  let pos = 10;
+
+  if (flags & GZIP_FLAG_EXTRA) pos += 2 + (data[pos] | (data[pos + 1] << 8));
+  if (flags & GZIP_FLAG_NAME) while (pos < data.length && data[pos++] !== 0);
+  if (flags & GZIP_FLAG_COMMENT) while (pos < data.length && data[pos++] !== 0);
+  if (flags & GZIP_FLAG_HCRC) pos += 2;
+
+  const { output, bytesRead } = inflateRaw(data.subarray(pos), maxOutput);
+  pos += bytesRead;
+
+  if (pos + 8 > data.length) throw new Error("unexpected end of gzip data");
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (view.getUint32(pos, true) !== crc32(output)) throw new Error("gzip checksum mismatch");
+  if (view.getUint32(pos + 4, true) !== output.length >>> 0) throw new Error("gzip length mismatch");
+
+  return output;
+}
+
+function gzip(data: Uint8Array): Uint8Array {
+  const body = deflateRaw(data);
+  const output = new Uint8Array(10 + body.length + 8);
+  const view = new DataView(output.buffer);
+
+  output.set([0x1f, 0x8b, 8, 0, 0, 0, 0, 0, 0, 0xff]);
+  output.set(body, 10);
+
+  view.setUint32(10 + body.length, crc32(data), true);
+  view.setUint32(14 + body.length, data.length >>> 0, true);
+
+  return output;
+}
+
+function unzlib(data: Uint8Array, maxOutput?: number): Uint8Array {
+  if (data.length < 6) throw new Error("unexpected end of zlib data");
+  if (!isZlib(data)) throw new Error("invalid zlib header");
+  if (data[1] & 0x20) throw new Error("zlib preset dictionaries are not supported");
+
+  const { output, bytesRead } = inflateRaw(data.subarray(2), maxOutput);
+  const pos = 2 + bytesRead;
+
+  if (pos + 4 > data.length) throw new Error("unexpected end of zlib data");
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (view.getUint32(pos) !== adler32(output)) throw new Error("zlib checksum mismatch");
+
+  return output;
+}
+
+function zlib(data: Uint8Array): Uint8Array {
+  const body = deflateRaw(data);
+  const output = new Uint8Array(2 + body.length + 4);
+
+  output.set([0x78, 0x9c]);
+  output.set(body, 2);
+  new DataView(output.buffer).setUint32(2 + body.length, adler32(data));
+
+  return output;
+}
+
+function isZlib(data: Uint8Array): boolean {
+  return data.length >= 2 && (data[0] & 0x0f) === 8 && data[0] >> 4 <= 7 && ((data[0] << 8) | data[1]) % 31 === 0;
+}
+
+export function detectCompression(data: Uint8Array): Compression {
+  if (data.length >= 2 && data[0] === 0x1f && data[1] === 0x8b) return "gzip";
+  if (isZlib(data)) return "zlib";
+
+  return "none";
+}
+
+export const builtinCodec: CompressionCodec = {
+  compress(data, format) {
+    return format === "gzip" ? gzip(data) : zlib(data);
+  },
+
+  decompress(data, format, maxOutput) {
+    return format === "gzip" ? gunzip(data, maxOutput) : unzlib(data, maxOutput);
+  },
+};
+
+async function pipeThrough(
+  data: Uint8Array,
+  stream: CompressionStream | DecompressionStream,
+  maxOutput: number = Infinity,
+): Promise<Uint8Array> {
+  const writer = stream.writable.getWriter();
+
+  // failures surface through the reader below
+  writer.write(data as Uint8Array<ArrayBuffer>).catch(() => {});
+  writer.close().catch(() => {});
+
+  const chunks: Uint8Array[] = [];
+  const reader = stream.readable.getReader();
+  let size = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.length;
+    if (size > maxOutput) {
+      reader.cancel().catch(() => {});
+      throw outputLimitError(maxOutput);
+    }
+
+    chunks.push(value);
+  }
+
+  const output = new Uint8Array(size);
+  for (let i = 0, offset = 0; i < chunks.length; offset += chunks[i++].length) output.set(chunks[i], offset);
+
+  return output;
+}
+
+export const compressionStreamCodec: CompressionCodec = {
+  compress(data, format) {
+    return pipeThrough(data, new CompressionStream(format === "gzip" ? "gzip" : "deflate"));
+  },
+
+  decompress(data, format, maxOutput) {
+    return pipeThrough(data, new DecompressionStream(format === "gzip" ? "gzip" : "deflate"), maxOutput);
+  },
+};
+
+export interface ZlibModule {
+  gzipSync(data: Uint8Array): Uint8Array;
+  gunzipSync(data: Uint8Array, options?: { maxOutputLength?: number }): Uint8Array;
+  deflateSync(data: Uint8Array): Uint8Array;
+  inflateSync(data: Uint8Array, options?: { maxOutputLength?: number }): Uint8Array;
+}
+
+// takes the module instead of importing it, so nothing here depends on node
+export function createZlibCodec(zlib: ZlibModule): CompressionCodec {
+  return {
+    compress(data, format) {
+      return format === "gzip" ? zlib.gzipSync(data) : zlib.deflateSync(data);
+    },
+
+    decompress(data, format, maxOutput) {
+      // node refuses lengths below 1 or above its largest buffer, the check after decompressing covers those
+      const options =
+        maxOutput !== undefined && maxOutput >= 1 && maxOutput < 2 ** 31
+          ? { maxOutputLength: Math.floor(maxOutput) }
+          : {};
+
+      try {
+        return format === "gzip" ? zlib.gunzipSync(data, options) : zlib.inflateSync(data, options);
+      } catch (error) {
+        if ((error as { code?: string }).code === "ERR_BUFFER_TOO_LARGE") throw outputLimitError(maxOutput!);
+        throw error;
+      }
+    },
+  };
+}
+
+export function compress(
+  data: Uint8Array,
+  compression: Compression,
+  codec: CompressionCodec = builtinCodec,
+): Uint8Array | Promise<Uint8Array> {
+  if (compression === "none") return data;
+  return codec.compress(data, compression);
+}
+
+function checkOutput(output: Uint8Array, maxOutput: number): Uint8Array {
+  if (output.length > maxOutput) throw outputLimitError(maxOutput);
+  return output;
+}
+
+export function decompress(
+  data: Uint8Array,
+  compression: Compression | "auto",
+  codec: CompressionCodec = builtinCodec,
+  maxOutput: number = Infinity,
+): Uint8Array | Promise<Uint8Array> {
+  if (compression === "auto") compression = detectCompression(data);
+  if (compression === "none") return data;
+
+  const output = codec.decompress(data, compression, maxOutput);
+  return output instanceof Promise
+    ? output.then((data) => checkOutput(data, maxOutput))
+    : checkOutput(output, maxOutput);
+}
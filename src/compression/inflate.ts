@@ -0,0 +1,240 @@
+import { ResourceLimitError } from "../errors";
+
+export const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258,
+];
+export const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+
+export const DIST_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145,
+  8193, 12289, 16385, 24577,
+];
+export const DIST_EXTRA = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13,
+];
+
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+const MAX_BITS = 15;
+
+class Huffman {
+  counts: Uint16Array = new Uint16Array(MAX_BITS + 1);
+  symbols: Uint16Array;
+
+  constructor(lengths: ArrayLike<number>) {
+    this.symbols = new Uint16Array(lengths.length);
+
+    for (let i = 0; i < lengths.length; i++) this.counts[lengths[i]]++;
+    this.counts[0] = 0;
+
+    const offsets = new Uint16Array(MAX_BITS + 1);
+    for (let i = 1; i < MAX_BITS; i++) offsets[i + 1] = offsets[i] + this.counts[i];
+
+    for (let i = 0; i < lengths.length; i++) {
+      if (lengths[i] !== 0) this.symbols[offsets[lengths[i]]++] = i;
+    }
+  }
+}
+
+function buildFixedTables(): [Huffman, Huffman] {
+  const lengths = new Uint8Array(288);
+
+  lengths.fill(8, 0, 144);
+  lengths.fill(9, 144, 256);
+  lengths.fill(7, 256, 280);
+  lengths.fill(8, 280, 288);
+
+  return [new Huffman(lengths), new Huffman(new Uint8Array(30).fill(5))];
+}
+
+let fixedTables: [Huffman, Huffman] | null = null;
+
+// shared by every codec, the limit keeps small compressed inputs from expanding into huge buffers
+export function outputLimitError(maxOutput: number): ResourceLimitError {
+  return new ResourceLimitError(
+    `the data decompresses to more than the ${maxOutput} bytes allowed`,
+    "bytes",
+    0,
+    "while decompressing",
+    "",
+  );
+}
+
+class Inflater {
+  private pos: number = 0;
+  private bitBuffer: number = 0;
+  private bitCount: number = 0;
+
+  private output: Uint8Array;
+  private outputPos: number = 0;
+
+  constructor(
+    private data: Uint8Array,
+    private maxOutput: number,
+  ) {
+    this.output = new Uint8Array(Math.min(Math.max(1024, data.length * 4), maxOutput));
+  }
+
+  private bits(count: number): number {
+    while (this.bitCount < count) {
+      if (this.pos >= this.data.length) throw new Error("unexpected end of compressed data");
+
+      this.bitBuffer |= this.data[this.pos++] << this.bitCount;
+      this.bitCount += 8;
+    }
+
+    const value = this.bitBuffer & ((1 << count) - 1);
+    this.bitBuffer >>>= count;
+    this.bitCount -= count;
+
+    return value;
+  }
+
+  private decodeSymbol(table: Huffman): number {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+
+    for (let length = 1; length <= MAX_BITS; length++) {
+      code |= this.bits(1);
+
+      const count = table.counts[length];
+      if (code - count < first) return table.symbols[index + (code - first)];
+
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+
+    throw new Error("invalid huffman code");
+  }
+
+  private ensureOutput(bytes: number) {
+    if (this.outputPos + bytes <= this.output.length) return;
+    if (this.outputPos + bytes > this.maxOutput) throw outputLimitError(this.maxOutput);
+
+    let length = this.output.length * 2;
+    while (this.outputPos + bytes > length) length *= 2;
+
+    const newOutput = new Uint8Array(Math.min(length, this.maxOutput));
+    newOutput.set(this.output.subarray(0, this.outputPos));
+
+    this.output = newOutput;
+  }
+
+  private inflateStored() {
+    this.bitBuffer = 0;
+    this.bitCount = 0;
+
+    if (this.pos + 4 > this.data.length) throw new Error("unexpected end of compressed data");
+
+    const length = this.data[this.pos] | (this.data[this.pos + 1] << 8);
+    const inverse = this.data[this.pos + 2] | (this.data[this.pos + 3] << 8);
+    this.pos += 4;
+
+    if (length !== (~inverse & 0xffff)) throw new Error("invalid stored block length");
+    if (this.pos + length > this.data.length) throw new Error("unexpected end of compressed data");
+
+    this.ensureOutput(length);
+    this.output.set(this.data.subarray(this.pos, this.pos + length), this.outputPos);
+
+    this.pos += length;
+    this.outputPos += length;
+  }
+
+  private inflateBlock(lengthTable: Huffman, distTable: Huffman) {
+    while (true) {
+      const symbol = this.decodeSymbol(lengthTable);
+
+      if (symbol < 256) {
+        this.ensureOutput(1);
+        this.output[this.outputPos++] = symbol;
+        continue;
+      }
+
+      if (symbol === 256) return;
+      if (symbol > 285) throw new Error("invalid length symbol");
+
+      const length = LENGTH_BASE[symbol - 257] + this.bits(LENGTH_EXTRA[symbol - 257]);
+
+      const distSymbol = this.decodeSymbol(distTable);
+      if (distSymbol > 29) throw new Error("invalid distance symbol");
+
+      const dist = DIST_BASE[distSymbol] + this.bits(DIST_EXTRA[distSymbol]);
+      if (dist > this.outputPos) throw new Error("distance is too far back");
+
+      this.ensureOutput(length);
+      for (let i = 0; i < length; i++, this.outputPos++) {
+        this.output[this.outputPos] = this.output[this.outputPos - dist];
+      }
+    }
+  }
+
+  private readDynamicTables(): [Huffman, Huffman] {
+    const lengthCount = this.bits(5) + 257;
+    const distCount = this.bits(5) + 1;
+    const codeCount = this.bits(4) + 4;
+
+    if (lengthCount > 286 || distCount > 30) throw new Error("invalid dynamic block header");
+
+    const codeLengths = new Uint8Array(19);
+    for (let i = 0; i < codeCount; i++) codeLengths[CODE_LENGTH_ORDER[i]] = this.bits(3);
+
+    const codeTable = new Huffman(codeLengths);
+    const lengths = new Uint8Array(lengthCount + distCount);
+
+    for (let i = 0; i < lengths.length;) {
+      const symbol = this.decodeSymbol(codeTable);
+
+      if (symbol < 16) {
+        lengths[i++] = symbol;
+        continue;
+      }
+
+      let repeat: number;
+      let value = 0;
+
+      if (symbol === 16) {
+        if (i === 0) throw new Error("repeat with no previous length");
+        value = lengths[i - 1];
+        repeat = 3 + this.bits(2);
+      } else if (symbol === 17) {
+        repeat = 3 + this.bits(3);
+      } else {
+        repeat = 11 + this.bits(7);
+      }
+
+      if (i + repeat > lengths.length) throw new Error("too many code lengths");
+      lengths.fill(value, i, i + repeat);
+      i += repeat;
+    }
+
+    return [new Huffman(lengths.subarray(0, lengthCount)), new Huffman(lengths.subarray(lengthCount))];
+  }
+
+  inflate(): { output: Uint8Array; bytesRead: number } {
+    let last = 0;
+
+    while (!last) {
+      last = this.bits(1);
+      const type = this.bits(2);
+
+      if (type === 0) {
+        this.inflateStored();
+      } else if (type === 1) {
+        fixedTables ??= buildFixedTables();
+        this.inflateBlock(...fixedTables);
+      } else if (type === 2) {
+        this.inflateBlock(...this.readDynamicTables());
+      } else {
+        throw new Error("invalid block type");
+      }
+    }
+
+    return { output: this.output.slice(0, this.outputPos), bytesRead: this.pos };
+  }
+}
+
+export function inflateRaw(data: Uint8Array, maxOutput: number = Infinity): { output: Uint8Array; bytesRead: number } {
+  return new Inflater(data, maxOutput).inflate();
+}
@@ -0,0 +1,96 @@
+const MAGIC = [0x4c, 0x5a, 0x34, 0x42, 0x6c, 0x6f, 0x63, 0x6b]; // "LZ4Block"
+const HEADER_SIZE = MAGIC.length + 13;
+
+const METHOD_RAW = 0x10;
+const METHOD_LZ4 = 0x20;
+
+function decompressBlock(input: Uint8Array, output: Uint8Array): void {
+  let inputPos = 0;
+  let outputPos = 0;
+
+  const readLength = (length: number) => {
+    if (length !== 15) return length;
+
+    let byte: number;
+    do {
+      if (inputPos >= input.length) throw new Error("unexpected end of lz4 data");
+
+      byte = input[inputPos++];
+      length += byte;
+    } while (byte === 255);
+
+    return length;
+  };
+
+  while (inputPos < input.length) {
+    const token = input[inputPos++];
+
+    const literalLength = readLength(token >> 4);
+    if (inputPos + literalLength > input.length || outputPos + literalLength > output.length)
+      throw new Error("lz4 literals run past the end of the block");
+
+    output.set(input.subarray(inputPos, inputPos + literalLength), outputPos);
+    inputPos += literalLength;
+    outputPos += literalLength;
+
+    // the last sequence of a block only has literals
+    if (inputPos >= input.length) break;
+    if (inputPos + 2 > input.length) throw new Error("unexpected end of lz4 data");
+
+    const offset = input[inputPos] | (input[inputPos + 1] << 8);
+    inputPos += 2;
+
+    if (offset === 0 || offset > outputPos) throw new Error("invalid lz4 match offset");
+
+    const matchLength = readLength(token & 0x0f) + 4;
+    if (outputPos + matchLength > output.length) throw new Error("lz4 match runs past the end of the block");
+
+    for (let i = 0; i < matchLength; i++, outputPos++) output[outputPos] = output[outputPos - offset];
+  }
+
+  if (outputPos !== output.length) throw new Error("lz4 block is shorter than its declared length");
+}
+
+// the framing written by lz4-java's LZ4BlockOutputStream, which is what minecraft uses for region chunks
+export function decompressLZ4(data: Uint8Array): Uint8Array {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const blocks: Uint8Array[] = [];
+
+  let pos = 0;
+
+  while (pos < data.length) {
+    if (pos + HEADER_SIZE > data.length) throw new Error("unexpected end of lz4 data");
+
+    for (let i = 0; i < MAGIC.length; i++) {
+      if (data[pos + i] !== MAGIC[i]) throw new Error("invalid lz4 block magic");
+    }
+
+    const method = data[pos + MAGIC.length] & 0xf0;
+    const compressedLength = view.getInt32(pos + MAGIC.length + 1, true);
+    const length = view.getInt32(pos + MAGIC.length + 5, true);
+    pos += HEADER_SIZE;
+
+    if (length === 0) break;
+    if (compressedLength < 0 || length < 0 || pos + compressedLength > data.length)
+      throw new Error("invalid lz4 block length");
+
+    const input = data.subarray(pos, pos + compressedLength);
+    pos += compressedLength;
+
+    if (method === METHOD_RAW) {
+      if (compressedLength !== length) throw new Error("invalid lz4 block length");
+      blocks.push(input);
+    } else if (method === METHOD_LZ4) {
+      const output = new Uint8Array(length);
+      decompressBlock(input, output);
+      blocks.push(output);
+    } else {
+      throw new Error(`unsupported lz4 block method '${method}'`);
+    }
+  }
+
+  const output = new Uint8Array(blocks.reduce((length, block) => length + block.length, 0));
+  for (let i = 0, offset = 0; i < blocks.length; offset += blocks[i++].length) output.set(blocks[i], offset);
+
+  return output;
+}
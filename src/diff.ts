@@ -0,0 +1,283 @@
+import * as tags from "./tags";
+import { stringifyPath, type PathSegment } from "./util";
+
+// paths point into the tree as it is when the change is applied, changes must be applied in order
+export type Change =
+  | { type: "add"; path: PathSegment[]; value: tags.Tag }
+  | { type: "remove"; path: PathSegment[]; value: tags.Tag }
+  | { type: "change"; path: PathSegment[]; from: tags.Tag; to: tags.Tag }
+  | { type: "type"; path: PathSegment[]; from: tags.Tag; to: tags.Tag }
+  | { type: "insert"; path: PathSegment[]; index: number; value: tags.Tag }
+  | { type: "delete"; path: PathSegment[]; index: number; value: tags.Tag };
+
+export type Patch = Change[];
+
+// above this many element pairs lists are compared by position instead of aligned
+const MAX_ALIGNMENT_CELLS = 1 << 22;
+
+type Step = "keep" | "pair" | "delete" | "insert";
+
+// gives equal tags the same number, so the alignment compares numbers instead of whole trees
+function numberTags(a: readonly tags.Tag[], b: readonly tags.Tag[]): [Uint32Array, Uint32Array] {
+  const classes = new Map<number, { tag: tags.Tag; id: number }[]>();
+  let next = 0;
+
+  const classify = (tag: tags.Tag) => {
+    const hash = tag.hash();
+    const bucket = classes.get(hash) ?? [];
+    // tags with the same hash are only compared in full when they collide
+    let match = bucket.find((item) => item.tag.equals(tag));
+
+    if (!match) {
+      match = { tag, id: next++ };
+      bucket.push(match);
+      classes.set(hash, bucket);
+    }
+
+    return match.id;
+  };
+
+  return [Uint32Array.from(a, classify), Uint32Array.from(b, classify)];
+}
+
+// longest common subsequence of equal elements, unmatched elements between two matches are paired up
+function alignLists(a: readonly tags.Tag[], b: readonly tags.Tag[]): Step[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix].equals(b[prefix])) prefix++;
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix].equals(b[b.length - 1 - suffix])
+  )
+    suffix++;
+
+  const n = a.length - prefix - suffix;
+  const m = b.length - prefix - suffix;
+  const middle: Step[] = [];
+
+  if (n * m > MAX_ALIGNMENT_CELLS) {
+    for (let i = 0; i < Math.min(n, m); i++) middle.push("pair");
+    for (let i = m; i < n; i++) middle.push("delete");
+    for (let i = n; i < m; i++) middle.push("insert");
+  } else {
+    const [idsA, idsB] = numberTags(a.slice(prefix, prefix + n), b.slice(prefix, prefix + m));
+
+    // lengths[i][j] is the lcs length of the remaining a[i..] and b[j..]
+    const lengths = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i][j] =
+          idsA[i] === idsB[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    let deletes = 0;
+    let inserts = 0;
+
+    const flush = () => {
+      const paired = Math.min(deletes, inserts);
+      for (let k = 0; k < paired; k++) middle.push("pair");
+      for (let k = paired; k < deletes; k++) middle.push("delete");
+      for (let k = paired; k < inserts; k++) middle.push("insert");
+
+      deletes = inserts = 0;
+    };
+
+    while (i < n || j < m) {
+      if (i < n && j < m && idsA[i] === idsB[j]) {
+        flush();
+        middle.push("keep");
+        i++;
+        j++;
+      } else if (j >= m || (i < n && lengths[i + 1][j] >= lengths[i][j + 1])) {
+        deletes++;
+        i++;
+      } else {
+        inserts++;
+        j++;
+      }
+    }
+
+    flush();
+  }
+
+  return [...new Array<Step>(prefix).fill("keep"), ...middle, ...new Array<Step>(suffix).fill("keep")];
+}
+
+function diffLists(a: readonly tags.Tag[], b: readonly tags.Tag[], path: PathSegment[], changes: Change[]) {
+  let i = 0;
+  let j = 0;
+  // position in the list as it is after the changes so far
+  let index = 0;
+
+  for (const step of alignLists(a, b)) {
+    if (step === "keep") {
+      i++;
+      j++;
+      index++;
+    } else if (step === "pair") {
+      diffTags(a[i++], b[j++], [...path, index++], changes);
+    } else if (step === "delete") {
+      changes.push({ type: "delete", path, index, value: a[i++] });
+    } else {
+      changes.push({ type: "insert", path, index: index++, value: b[j++] });
+    }
+  }
+}
+
+function diffTags(a: tags.Tag, b: tags.Tag, path: PathSegment[], changes: Change[]) {
+  if (a.getId() !== b.getId()) {
+    changes.push({ type: "type", path, from: a, to: b });
+  } else if (a instanceof tags.CompoundTag) {
+    const other = b as tags.CompoundTag;
+
+    for (const key of a.list()) {
+      const value = other.get(key);
+
+      if (value) diffTags(a.get(key)!, value, [...path, key], changes);
+      else changes.push({ type: "remove", path: [...path, key], value: a.get(key)! });
+    }
+
+    for (const key of other.list()) {
+      if (!a.get(key)) changes.push({ type: "add", path: [...path, key], value: other.get(key)! });
+    }
+  } else if (a instanceof tags.ListTag && a.getElementType() === (b as tags.ListTag).getElementType()) {
+    diffLists(a.getValues(), (b as tags.ListTag).getValues(), path, changes);
+  } else if (!a.equals(b)) {
+    changes.push({ type: "change", path, from: a, to: b });
+  }
+}
+
+// the changes that turn a into b
+export function diff(a: tags.Tag, b: tags.Tag): Patch {
+  const changes: Change[] = [];
+  diffTags(a, b, [], changes);
+
+  return changes;
+}
+
+function patchError(change: Change, reason: string): never {
+  throw new Error(`cannot apply ${change.type} at '${stringifyPath(change.path) || "root"}': ${reason}`);
+}
+
+function resolve(root: tags.Tag, path: PathSegment[], change: Change): tags.Tag {
+  let tag = root;
+
+  for (const segment of path) {
+    let child: tags.Tag | null | undefined = null;
+
+    if (typeof segment === "number" && tag instanceof tags.ListTag) child = tag.getValues()[segment];
+    else if (typeof segment === "string" && tag instanceof tags.CompoundTag) child = tag.get(segment);
+
+    if (!child) patchError(change, `'${stringifyPath(path)}' does not exist`);
+    tag = child;
+  }
+
+  return tag;
+}
+
+function expectEqual(change: Change, actual: tags.Tag | null | undefined, expected: tags.Tag) {
+  if (!actual) patchError(change, "the value does not exist");
+  if (!actual.equals(expected)) patchError(change, `expected ${expected.stringify()} but found ${actual.stringify()}`);
+}
+
+function replace(root: tags.Tag, change: Change, value: tags.Tag): tags.Tag {
+  if (change.path.length === 0) return value;
+
+  const parent = resolve(root, change.path.slice(0, -1), change);
+  const key = change.path[change.path.length - 1];
+
+  if (typeof key === "number") {
+    if (!(parent as tags.ListTag).accepts(value)) patchError(change, "the list cannot hold the new value");
+    (parent as tags.ListTag).set(key, value);
+  } else (parent as tags.CompoundTag).put(key, value);
+
+  return root;
+}
+
+// applies the changes in place, the result is only a different tag when the root itself was replaced
+export function applyPatch(tag: tags.Tag, patch: Patch): tags.Tag {
+  let root = tag;
+
+  for (const change of patch) {
+    switch (change.type) {
+      case "add":
+      case "remove": {
+        const parent = resolve(root, change.path.slice(0, -1), change);
+        const key = change.path[change.path.length - 1];
+
+        if (!(parent instanceof tags.CompoundTag) || typeof key !== "string") patchError(change, "not a compound key");
+
+        if (change.type === "add") {
+          if (parent.get(key)) patchError(change, "the key already exists");
+          parent.put(key, change.value.clone());
+        } else {
+          expectEqual(change, parent.get(key), change.value);
+          parent.delete(key);
+        }
+
+        break;
+      }
+
+      case "change":
+      case "type":
+        expectEqual(change, change.path.length === 0 ? root : resolve(root, change.path, change), change.from);
+        root = replace(root, change, change.to.clone());
+        break;
+
+      case "insert":
+      case "delete": {
+        const list = resolve(root, change.path, change);
+        if (!(list instanceof tags.ListTag)) patchError(change, "not a list");
+
+        if (change.index < 0 || change.index > list.size() - (change.type === "delete" ? 1 : 0))
+          patchError(change, `index ${change.index} is out of bounds`);
+
+        if (change.type === "insert") {
+          if (!list.accepts(change.value)) patchError(change, "the list cannot hold the value");
+          list.insert(change.index, change.value.clone());
+        } else {
+          expectEqual(change, list.get(change.index), change.value);
+          list.remove(change.index);
+        }
+
+        break;
+      }
+    }
+  }
+
+  return root;
+}
+
+function tagName(tag: tags.Tag): string {
+  return tag.constructor.name;
+}
+
+// one line per change: + added, - removed, ~ changed and ! type changed
+export function renderPatch(patch: Patch): string {
+  return patch
+    .map((change) => {
+      const path = stringifyPath(change.path) || "(root)";
+
+      switch (change.type) {
+        case "add":
+          return `+ ${path}: ${change.value.stringify()}`;
+        case "remove":
+          return `- ${path}: ${change.value.stringify()}`;
+        case "change":
+          return `~ ${path}: ${change.from.stringify()} -> ${change.to.stringify()}`;
+        case "type":
+          return `! ${path}: ${change.from.stringify()} -> ${change.to.stringify()} (${tagName(change.from)} to ${tagName(change.to)})`;
+        case "insert":
+          return `+ ${stringifyPath([...change.path, change.index])}: ${change.value.stringify()}`;
+        case "delete":
+          return `- ${stringifyPath([...change.path, change.index])}: ${change.value.stringify()}`;
+      }
+    })
+    .join("\n");
+}
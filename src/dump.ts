@@ -1,5 +1,15 @@
 import * as tags from "./tags";
-import { stringifyByte } from "./util";
+import { HOST_LITTLE_ENDIAN, stringifyByte } from "./util";
+import type { NBTEncoding } from "./parser/nbt";
+import type { Compression, CompressionCodec } from "./compression";
+
+export interface DumpOptions {
+  encoding?: NBTEncoding;
+  // java network format (1.20.2+), the root tag has no name
+  network?: boolean;
+  compression?: Compression;
+  codec?: CompressionCodec;
+}
 
 class DumpContext {
   private buffer: Uint8Array = new Uint8Array(256);
@@ -7,13 +17,24 @@ class DumpContext {
 
   private view: DataView = new DataView(this.buffer.buffer);
 
+  private littleEndian: boolean;
+  private varint: boolean;
+
+  constructor(encoding: NBTEncoding) {
+    this.littleEndian = encoding === "little-endian" || encoding === "varint";
+    this.varint = encoding === "varint";
+  }
+
   private growBuffer(bytes: number) {
-    if (this.pointer + bytes >= this.buffer.length) {
-      const newBuffer = new Uint8Array(this.buffer.length * 2);
+    if (this.pointer + bytes > this.buffer.length) {
+      let length = this.buffer.length * 2;
+      while (this.pointer + bytes > length) length *= 2;
+
+      const newBuffer = new Uint8Array(length);
       newBuffer.set(this.buffer);
 
       this.buffer = newBuffer;
-      this.view = new DataView(this.buffer.buffer, 0, 0);
+      this.view = new DataView(this.buffer.buffer);
     }
   }
 
@@ -24,15 +45,15 @@ class DumpContext {
     switch (bytes) {
       case 2:
         // @ts-expect-error
-        return this.view.setInt16(this.pointer - bytes, value);
+        return this.view.setInt16(this.pointer - bytes, value, this.littleEndian);
 
       case 4:
         // @ts-expect-error
-        return this.view.setInt32(this.pointer - bytes, value);
+        return this.view.setInt32(this.pointer - bytes, value, this.littleEndian);
 
       case 8:
         // @ts-expect-error
-        return this.view.setBigInt64(this.pointer - bytes, value);
+        return this.view.setBigInt64(this.pointer - bytes, value, this.littleEndian);
     }
   }
 
@@ -43,15 +64,15 @@ class DumpContext {
     switch (bytes) {
       case 2:
         // @ts-expect-error
-        return this.view.setUint16(this.pointer - bytes, value);
+        return this.view.setUint16(this.pointer - bytes, value, this.littleEndian);
 
       case 4:
         // @ts-expect-error
-        return this.view.setUint32(this.pointer - bytes, value);
+        return this.view.setUint32(this.pointer - bytes, value, this.littleEndian);
 
       case 8:
         // @ts-expect-error
-        return this.view.setBigUint64(this.pointer - bytes, value);
+        return this.view.setBigUint64(this.pointer - bytes, value, this.littleEndian);
     }
   }
 
@@ -61,13 +82,59 @@ class DumpContext {
 
     switch (bytes) {
       case 4:
-        return this.view.setFloat32(this.pointer - bytes, value);
+        return this.view.setFloat32(this.pointer - bytes, value, this.littleEndian);
 
       case 8:
-        return this.view.setFloat64(this.pointer - bytes, value);
+        return this.view.setFloat64(this.pointer - bytes, value, this.littleEndian);
     }
   }
 
+  dumpVarInt(value: number) {
+    value >>>= 0;
+
+    while (value >= 0x80) {
+      this.dumpByte((value & 0x7f) | 0x80);
+      value >>>= 7;
+    }
+
+    this.dumpByte(value);
+  }
+
+  dumpVarLong(value: bigint) {
+    value = BigInt.asUintN(64, value);
+
+    while (value >= 0x80n) {
+      this.dumpByte(Number(value & 0x7fn) | 0x80);
+      value >>= 7n;
+    }
+
+    this.dumpByte(Number(value));
+  }
+
+  dumpInt(value: number) {
+    if (!this.varint) return this.dumpInteger(4, value);
+    this.dumpVarInt((value << 1) ^ (value >> 31));
+  }
+
+  dumpLong(value: bigint) {
+    if (!this.varint) return this.dumpInteger(8, value);
+    this.dumpVarLong((value << 1n) ^ (value >> 63n));
+  }
+
+  dumpInts(values: Int32Array) {
+    if (!this.varint && this.littleEndian === HOST_LITTLE_ENDIAN)
+      return this.dumpRaw(new Uint8Array(values.buffer, values.byteOffset, values.byteLength));
+
+    for (let i = 0; i < values.length; i++) this.dumpInt(values[i]);
+  }
+
+  dumpLongs(values: BigInt64Array) {
+    if (!this.varint && this.littleEndian === HOST_LITTLE_ENDIAN)
+      return this.dumpRaw(new Uint8Array(values.buffer, values.byteOffset, values.byteLength));
+
+    for (let i = 0; i < values.length; i++) this.dumpLong(values[i]);
+  }
+
   dumpRaw(bytes: Uint8Array) {
     this.growBuffer(bytes.length);
     this.buffer.set(bytes, this.pointer);
@@ -77,7 +144,8 @@ class DumpContext {
   dumpString(text: string) {
     const bytes = new TextEncoder().encode(text);
 
-    this.dumpUnsignedInteger(2, bytes.length);
+    if (this.varint) this.dumpVarInt(bytes.length);
+    else this.dumpUnsignedInteger(2, bytes.length);
     this.dumpRaw(bytes);
   }
 
@@ -92,25 +160,30 @@ class DumpContext {
 }
 
 export class NBTDumper {
-  constructor(private root: tags.Tag) {}
+  constructor(
+    private root: tags.Tag | tags.NamedTag,
+    private options: DumpOptions = {},
+  ) {}
 
   private dumpByteArray(ctx: DumpContext, tag: tags.ByteArrayTag) {
-    ctx.dumpInteger(4, tag.getValues().length);
-    ctx.dumpRaw(new Uint8Array(tag.getValues()));
+    const values = tag.getValues();
+
+    ctx.dumpInt(values.length);
+    ctx.dumpRaw(new Uint8Array(values.buffer, values.byteOffset, values.byteLength));
   }
 
   private dumpIntArray(ctx: DumpContext, tag: tags.IntArrayTag) {
     const values = tag.getValues();
 
-    ctx.dumpInteger(4, values.length);
-    for (let i = 0; i < values.length; i++) ctx.dumpInteger(4, values[i]);
+    ctx.dumpInt(values.length);
+    ctx.dumpInts(values);
   }
 
   private dumpLongArray(ctx: DumpContext, tag: tags.LongArrayTag) {
     const values = tag.getValues();
 
-    ctx.dumpInteger(4, values.length);
-    for (let i = 0; i < values.length; i++) ctx.dumpInteger(8, values[i]);
+    ctx.dumpInt(values.length);
+    ctx.dumpLongs(values);
   }
 
   private dumpString(ctx: DumpContext, tag: tags.StringTag) {
@@ -120,33 +193,10 @@ export class NBTDumper {
   private dumpList(ctx: DumpContext, tag: tags.ListTag) {
     const values = tag.getValues();
 
-    let valueId = tags.Tags.TAG_End;
-    let sameType = true;
-
-    if (values.length > 0) {
-      valueId = values[0].getId();
-
-      for (let i = 1; i < values.length; i++) {
-        if (values[i].getId() !== valueId) {
-          sameType = false;
-          break;
-        }
-      }
-    }
-
-    if (sameType) {
-      ctx.dumpByte(valueId);
-      ctx.dumpInteger(4, values.length);
+    ctx.dumpByte(tag.getElementType());
+    ctx.dumpInt(values.length);
 
-      for (let i = 0; i < values.length; i++) this.dumpTagValue(ctx, values[i]);
-    } else {
-      ctx.dumpByte(tags.Tags.TAG_Compound);
-      ctx.dumpInteger(4, values.length);
-
-      for (let i = 0; i < values.length; i++) {
-        this.dumpTagValue(ctx, new tags.CompoundTag(new Map([["", values[i]]])));
-      }
-    }
+    for (let i = 0; i < values.length; i++) this.dumpTagValue(ctx, values[i]);
   }
 
   private dumpCompound(ctx: DumpContext, tag: tags.CompoundTag) {
@@ -165,8 +215,8 @@ export class NBTDumper {
   private dumpTagValue(ctx: DumpContext, tag: tags.Tag): void {
     if (tag instanceof tags.ByteTag) return ctx.dumpByte(tag.getValue());
     if (tag instanceof tags.ShortTag) return ctx.dumpInteger(2, tag.getValue());
-    if (tag instanceof tags.IntTag) return ctx.dumpInteger(4, tag.getValue());
-    if (tag instanceof tags.LongTag) return ctx.dumpInteger(8, tag.getValue());
+    if (tag instanceof tags.IntTag) return ctx.dumpInt(tag.getValue());
+    if (tag instanceof tags.LongTag) return ctx.dumpLong(tag.getValue());
 
     if (tag instanceof tags.FloatTag) return ctx.dumpFloat(4, tag.getValue());
     if (tag instanceof tags.DoubleTag) return ctx.dumpFloat(8, tag.getValue());
@@ -183,27 +233,15 @@ export class NBTDumper {
     throw new Error(`cannot dump tag id '${stringifyByte(tag.getId())}'`);
   }
 
-  private dumpTag(ctx: DumpContext, tag: tags.Tag) {
-    ctx.dumpByte(tag.getId());
-    this.dumpTagValue(ctx, tag);
-  }
-
   dump(): Uint8Array {
-    const ctx = new DumpContext();
-
-    if (this.root instanceof tags.CompoundTag && this.root.list().length === 1) {
-      const name = this.root.list()[0];
+    const ctx = new DumpContext(this.options.encoding ?? "big-endian");
 
-      ctx.dumpByte(this.root.getId());
-      ctx.dumpString(name);
+    const { name, tag } = this.root instanceof tags.Tag ? { name: "", tag: this.root } : this.root;
 
-      this.dumpTagValue(ctx, this.root.get(name)!);
-    } else {
-      ctx.dumpByte(tags.Tags.TAG_Compound);
-      ctx.dumpString("");
+    ctx.dumpByte(tag.getId());
+    if (!this.options.network) ctx.dumpString(name);
 
-      this.dumpTag(ctx, this.root);
-    }
+    this.dumpTagValue(ctx, tag);
 
     return ctx.final();
   }
@@ -0,0 +1,131 @@
+export interface ParseErrorDetails {
+  expected?: string;
+  actual?: string;
+}
+
+const SNIPPET_ROW_BYTES = 16;
+
+function renderBinarySnippet(data: Uint8Array, offset: number): string {
+  const rowStart = offset - (offset % SNIPPET_ROW_BYTES);
+  const row = Array.from(data.subarray(rowStart, rowStart + SNIPPET_ROW_BYTES), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  );
+
+  const prefix = `${rowStart.toString(16).padStart(8, "0")}: `;
+  const caret = " ".repeat(prefix.length + (offset - rowStart) * 3) + "^";
+
+  return `${prefix}${row.join(" ")}\n${caret}`;
+}
+
+function renderTextSnippet(source: string, line: number, column: number): string {
+  const text = source.split(/\r?\n/)[line - 1] ?? "";
+  const gutter = `${line}`;
+
+  return `${gutter} | ${text}\n${" ".repeat(gutter.length)} | ${" ".repeat(column - 1)}^`;
+}
+
+export function textPosition(source: string, offset: number): { line: number; column: number } {
+  const before = source.slice(0, offset);
+  return { line: before.split("\n").length, column: offset - (before.lastIndexOf("\n") + 1) + 1 };
+}
+
+function describeLocation(location: string, path: string): string {
+  return path ? `${location} in '${path}'` : location;
+}
+
+export class NBTParseError extends Error {
+  readonly reason: string;
+  readonly offset: number;
+  readonly path: string;
+  readonly expected: string | null;
+  readonly actual: string | null;
+  readonly snippet: string;
+
+  constructor(reason: string, data: Uint8Array, offset: number, path: string, details: ParseErrorDetails = {}) {
+    super(`${reason} (${describeLocation(`at byte ${offset}`, path)})`);
+
+    this.name = "NBTParseError";
+    this.reason = reason;
+    this.offset = offset;
+    this.path = path;
+    this.expected = details.expected ?? null;
+    this.actual = details.actual ?? null;
+    this.snippet = renderBinarySnippet(data, offset);
+  }
+}
+
+export class SNBTParseError extends Error {
+  readonly reason: string;
+  readonly offset: number;
+  readonly line: number;
+  readonly column: number;
+  readonly path: string;
+  readonly expected: string | null;
+  readonly actual: string | null;
+  readonly snippet: string;
+
+  constructor(reason: string, source: string, offset: number, path: string, details: ParseErrorDetails = {}) {
+    const { line, column } = textPosition(source, offset);
+
+    super(`${reason} (${describeLocation(`at ${line}:${column}`, path)})`);
+
+    this.name = "SNBTParseError";
+    this.reason = reason;
+    this.offset = offset;
+    this.line = line;
+    this.column = column;
+    this.path = path;
+    this.expected = details.expected ?? null;
+    this.actual = details.actual ?? null;
+    this.snippet = renderTextSnippet(source, line, column);
+  }
+}
+
+export class CodecError extends Error {
+  readonly reason: string;
+  readonly path: string;
+
+  constructor(reason: string, path: string) {
+    super(path ? `${reason} (in '${path}')` : reason);
+
+    this.name = "CodecError";
+    this.reason = reason;
+    this.path = path;
+  }
+}
+
+export class MigrationError extends Error {
+  readonly fix: string;
+  readonly version: number;
+
+  constructor(fix: string, version: number, cause: unknown) {
+    super(`fix '${fix}' for data version ${version} failed: ${cause instanceof Error ? cause.message : cause}`, {
+      cause,
+    });
+
+    this.name = "MigrationError";
+    this.fix = fix;
+    this.version = version;
+  }
+}
+
+export type ResourceLimit = "depth" | "bytes" | "string" | "length";
+
+// thrown when parsed data goes over one of the limits in ParseLimits, for nbt and snbt alike
+export class ResourceLimitError extends Error {
+  readonly reason: string;
+  readonly limit: ResourceLimit;
+  readonly offset: number;
+  readonly path: string;
+
+  // location describes the offset, a byte for nbt and a line and column for snbt
+  constructor(reason: string, limit: ResourceLimit, offset: number, location: string, path: string) {
+    super(`${reason} (${describeLocation(location, path)})`);
+
+    this.name = "ResourceLimitError";
+    this.reason = reason;
+    this.limit = limit;
+    this.offset = offset;
+    this.path = path;
+  }
+}
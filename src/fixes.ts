@@ -0,0 +1,59 @@
+import * as tags from "./tags";
+import { NBTPath } from "./path";
+import type { FixFunction } from "./migration";
+
+// runs the fixes on every compound the path selects, relative to the fixed tag
+export function forEach(path: string, ...fixes: FixFunction[]): FixFunction {
+  const selector = new NBTPath(path);
+
+  return (tag) => {
+    for (const selected of selector.get(tag)) {
+      if (selected instanceof tags.CompoundTag) for (const fix of fixes) fix(selected);
+    }
+  };
+}
+
+export function renameKey(from: string, to: string): FixFunction {
+  return (tag) => {
+    const value = tag.get(from);
+    if (!value || from === to) return;
+
+    tag.delete(from);
+    tag.put(to, value);
+  };
+}
+
+export function removeKey(key: string): FixFunction {
+  return (tag) => tag.delete(key);
+}
+
+// moves the tag at one path to another, both relative to the fixed tag. missing compounds on the way are created
+export function moveTag(from: string, to: string): FixFunction {
+  const source = new NBTPath(from);
+  const target = new NBTPath(to);
+
+  return (tag) => {
+    const values = source.get(tag);
+
+    if (values.length === 0) return;
+    if (values.length > 1) throw new Error(`'${from}' selects ${values.length} tags, only one can be moved`);
+
+    source.remove(tag);
+    target.set(tag, values[0]);
+  };
+}
+
+// replaces the string at the key when the mapping has it, like the game renaming an entity or item id
+export function renameValue(key: string, mapping: Record<string, string>): FixFunction {
+  return (tag) => {
+    const value = tag.get(key);
+
+    if (value instanceof tags.StringTag && Object.hasOwn(mapping, value.getValue()))
+      tag.put(key, new tags.StringTag(mapping[value.getValue()]));
+  };
+}
+
+// renames the ids of the compounds in the lists at the path, ids missing from the mapping stay as they are
+export function renameIds(listPath: string, mapping: Record<string, string>, key: string = "id"): FixFunction {
+  return forEach(`${listPath}[]`, renameValue(key, mapping));
+}
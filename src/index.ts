@@ -1,18 +1,147 @@
 export * from "./tags";
-import type { Tag } from "./tags";
+export { parseBedrockLevel, dumpBedrockLevel, type BedrockLevel } from "./bedrock";
+export {
+  builtinCodec,
+  compressionStreamCodec,
+  createZlibCodec,
+  detectCompression,
+  type Compression,
+  type CompressionCodec,
+  type CompressionFormat,
+  type ZlibModule,
+} from "./compression";
+export { RegionFile, type ChunkCompression, type ChunkWriteOptions, type RegionFileOptions } from "./region";
+export {
+  NBTParseError,
+  SNBTParseError,
+  CodecError,
+  MigrationError,
+  ResourceLimitError,
+  type ParseErrorDetails,
+  type ResourceLimit,
+} from "./errors";
+export { DEFAULT_MAX_DEPTH, type ParseLimits } from "./limits";
+export * as codecs from "./codec";
+export type { Codec, CodecType } from "./codec";
+export {
+  toJSON,
+  fromJSON,
+  type JSONTag,
+  type JSONTagType,
+  type CompatJSONTag,
+  type CompatJSONTagType,
+  type JSONFormat,
+  type JSONOptions,
+} from "./json";
+export { NBTPath } from "./path";
+export { diff, applyPatch, renderPatch, type Change, type Patch } from "./diff";
+export { StructureTemplate, type StructureBlock, type StructureEntity, type Vector3 } from "./structure";
+export {
+  parseBlockState,
+  stringifyBlockState,
+  rotateBlockState,
+  mirrorBlockState,
+  type BlockState,
+  type Mirror,
+  type Rotation,
+} from "./block";
+export { BlockVolume, type VolumeBlockEntity, type VolumeEntity } from "./volume";
+export {
+  readSchematic,
+  readSpongeSchematic,
+  writeSpongeSchematic,
+  readMCEditSchematic,
+  writeMCEditSchematic,
+  rawLegacyMapping,
+  type LegacyBlockMapping,
+  type MCEditWriteOptions,
+  type SchematicReadOptions,
+  type SpongeWriteOptions,
+} from "./schematic";
+export {
+  readLitematic,
+  writeLitematic,
+  mergeLitematicRegions,
+  type Litematic,
+  type LitematicRegion,
+} from "./litematic";
+export {
+  ChunkSection,
+  PalettedContainer,
+  type ChunkSectionOptions,
+  type PalettedContainerOptions,
+  type SectionFormat,
+} from "./section";
+export { PackedArray } from "./bits";
+export {
+  Migrator,
+  type AppliedFix,
+  type DataType,
+  type Fix,
+  type FixFunction,
+  type MigrateOptions,
+  type MigrationReport,
+  type NestedDataFinder,
+} from "./migration";
+export * as fixes from "./fixes";
+export {
+  textComponentFromTag,
+  textComponentToTag,
+  parseTextComponent,
+  stringifyTextComponent,
+  renderPlainText,
+  renderLegacyText,
+  type TextComponent,
+  type TextStyle,
+  type ClickEvent,
+  type HoverEvent,
+  type LiteralText,
+  type TranslatedText,
+  type ScoreText,
+  type SelectorText,
+  type KeybindText,
+  type NBTText,
+  type TextRenderOptions,
+} from "./text";
+export { toComponentItem, toLegacyItem, type ItemConversion } from "./item";
+export { simplify, fromValue, type SimpleValue, type TypeHint } from "./value";
+export { NBTEventReader, type NBTEvent, type NBTStreamOptions, type NBTStreamSource } from "./parser/stream";
+export type { NBTEncoding, NBTParseOptions } from "./parser/nbt";
+export type { DumpOptions } from "./dump";
+export type { SNBTGrammar, SNBTParseOptions } from "./parser/snbt";
+import type { NamedTag, Tag } from "./tags";
+import type { NBTParseOptions } from "./parser/nbt";
+import type { DumpOptions } from "./dump";
 
-import { SNBTParser } from "./parser/snbt";
+import { SNBTParser, type SNBTParseOptions } from "./parser/snbt";
 import { NBTParser } from "./parser/nbt";
 import { NBTDumper } from "./dump";
+import { compress, decompress } from "./compression";
 
-export function parseSNBT(data: string): Tag {
-  return new SNBTParser(data).parse();
+export function parseSNBT(data: string, options: SNBTParseOptions = {}): Tag {
+  return new SNBTParser(data, options).parse();
 }
 
-export function parseNBT(data: Uint8Array): Tag {
-  return new NBTParser(data).parse();
+export function parseNBT(data: Uint8Array, options: NBTParseOptions = {}): NamedTag {
+  // encoded tags are smaller than the bytes they are accounted for, so valid data never decompresses past maxBytes
+  const raw = decompress(data, options.compression ?? "auto", options.codec, options.limits?.maxBytes);
+  if (raw instanceof Promise) throw new Error("compression codec is asynchronous, use parseNBTAsync");
+
+  return new NBTParser(raw, options).parse();
+}
+
+export async function parseNBTAsync(data: Uint8Array, options: NBTParseOptions = {}): Promise<NamedTag> {
+  const raw = await decompress(data, options.compression ?? "auto", options.codec, options.limits?.maxBytes);
+  return new NBTParser(raw, options).parse();
 }
 
-export function dump(tag: Tag): Uint8Array {
-  return new NBTDumper(tag).dump();
-}
\ No newline at end of file
+export function dump(tag: Tag | NamedTag, options: DumpOptions = {}): Uint8Array {
+  const compressed = compress(new NBTDumper(tag, options).dump(), options.compression ?? "none", options.codec);
+  if (compressed instanceof Promise) throw new Error("compression codec is asynchronous, use dumpAsync");
+
+  return compressed;
+}
+
+export async function dumpAsync(tag: Tag | NamedTag, options: DumpOptions = {}): Promise<Uint8Array> {
+  return compress(new NBTDumper(tag, options).dump(), options.compression ?? "none", options.codec);
+}
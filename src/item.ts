@@ -0,0 +1,553 @@
+import * as tags from "./tags";
+import { stringifyPath, type PathSegment } from "./util";
+
+export interface ItemConversion {
+  item: tags.CompoundTag;
+  // what could not be converted, or was only partly converted, with the path of the value in the input
+  warnings: string[];
+}
+
+// the HideFlags bit for each component that has a show_in_tooltip field
+const TOOLTIP_FLAGS: [string, number][] = [
+  ["minecraft:enchantments", 1],
+  ["minecraft:attribute_modifiers", 2],
+  ["minecraft:unbreakable", 4],
+  ["minecraft:stored_enchantments", 32],
+  ["minecraft:dyed_color", 64],
+];
+const CONVERTED_FLAGS = TOOLTIP_FLAGS.reduce((flags, [, flag]) => flags | flag, 0);
+
+const OPERATIONS = ["add_value", "add_multiplied_base", "add_multiplied_total"];
+const LEGACY_SLOTS = ["mainhand", "offhand", "feet", "legs", "chest", "head"];
+
+// vanilla tag keys that became components this converter does not handle, they are kept in custom_data
+const UNCONVERTED_KEYS = new Set([
+  "RepairCost",
+  "CanDestroy",
+  "CanPlaceOn",
+  "BlockEntityTag",
+  "BlockStateTag",
+  "EntityTag",
+  "BucketVariantTag",
+  "Potion",
+  "CustomPotionEffects",
+  "CustomPotionColor",
+  "SkullOwner",
+  "pages",
+  "title",
+  "author",
+  "generation",
+  "resolved",
+  "Trim",
+  "Fireworks",
+  "Explosion",
+  "Items",
+  "ChargedProjectiles",
+  "Charged",
+  "Decorations",
+  "map",
+  "LodestonePos",
+  "LodestoneDimension",
+  "LodestoneTracked",
+  "Recipes",
+  "effects",
+  "instrument",
+  "DebugProperty",
+]);
+
+function namespaced(id: string): string {
+  return id.includes(":") ? id : `minecraft:${id}`;
+}
+
+function numericValue(tag: tags.Tag | null): number | undefined {
+  if (!(tag instanceof tags.LiteralTag)) return undefined;
+
+  const value = tag.getValue();
+  return typeof value === "number" || typeof value === "bigint" ? Number(value) : undefined;
+}
+
+function showsInTooltip(component: tags.Tag): boolean {
+  return !(component instanceof tags.CompoundTag && numericValue(component.get("show_in_tooltip")) === 0);
+}
+
+class Conversion {
+  readonly warnings: string[] = [];
+
+  warn(reason: string, path: PathSegment[]) {
+    this.warnings.push(`${reason} (in '${stringifyPath(path)}')`);
+  }
+}
+
+function expectItem(item: tags.Tag): tags.CompoundTag {
+  if (!(item instanceof tags.CompoundTag))
+    throw new Error(`expected an item compound but got ${item.constructor.name}`);
+  if (!(item.get("id") instanceof tags.StringTag)) throw new Error("the item has no string id");
+
+  return item;
+}
+
+function upgradeEnchantments(
+  list: tags.Tag,
+  path: PathSegment[],
+  conversion: Conversion,
+): { levels: tags.CompoundTag; glint: boolean } | null {
+  if (!(list instanceof tags.ListTag)) {
+    conversion.warn(`expected a list but got ${list.constructor.name}, it was dropped`, path);
+    return null;
+  }
+
+  const levels = new Map<string, tags.Tag>();
+  let glint = false;
+
+  list.getValues().forEach((entry, index) => {
+    // a list of empty compounds was the usual way to make an item glint without enchanting it
+    if (entry instanceof tags.CompoundTag && entry.list().length === 0) {
+      glint = true;
+      return;
+    }
+
+    const id = entry instanceof tags.CompoundTag ? entry.get("id") : null;
+    const level = entry instanceof tags.CompoundTag ? numericValue(entry.get("lvl")) : undefined;
+
+    if (!(id instanceof tags.StringTag) || level === undefined) {
+      conversion.warn("is not an enchantment with an id and a level, it was dropped", [...path, index]);
+      return;
+    }
+
+    // the game leaves out enchantments without a level when it upgrades them
+    if (level < 1) {
+      conversion.warn(`has level ${level}, it was dropped`, [...path, index]);
+      return;
+    }
+
+    const name = namespaced(id.getValue());
+    if (levels.has(name)) conversion.warn(`repeats ${name}, the last level is kept`, [...path, index]);
+
+    if (level > 255) conversion.warn(`level ${level} is clamped to the 255 components allow`, [...path, index]);
+    levels.set(name, new tags.IntTag(Math.min(level, 255)));
+  });
+
+  return { levels: new tags.CompoundTag(levels), glint };
+}
+
+function upgradeUUID(modifier: tags.CompoundTag): tags.IntArrayTag | null {
+  const uuid = modifier.get("UUID");
+  if (uuid instanceof tags.IntArrayTag && uuid.size() === 4) return new tags.IntArrayTag(uuid.getValues());
+
+  // before 1.16 the uuid was split into two longs
+  const most = modifier.get("UUIDMost");
+  const least = modifier.get("UUIDLeast");
+  if (!(most instanceof tags.LongTag) || !(least instanceof tags.LongTag)) return null;
+
+  const words = [most.getValue() >> 32n, most.getValue(), least.getValue() >> 32n, least.getValue()];
+  return new tags.IntArrayTag(words.map((word) => Number(BigInt.asIntN(32, word))));
+}
+
+function upgradeAttributeModifiers(list: tags.Tag, path: PathSegment[], conversion: Conversion): tags.ListTag | null {
+  if (!(list instanceof tags.ListTag)) {
+    conversion.warn(`expected a list but got ${list.constructor.name}, it was dropped`, path);
+    return null;
+  }
+
+  const modifiers: tags.CompoundTag[] = [];
+
+  list.getValues().forEach((entry, index) => {
+    const entryPath = [...path, index];
+
+    if (!(entry instanceof tags.CompoundTag)) {
+      conversion.warn(`expected a compound but got ${entry.constructor.name}, it was dropped`, entryPath);
+      return;
+    }
+
+    const attribute = entry.get("AttributeName");
+    const amount = numericValue(entry.get("Amount"));
+    const operation = numericValue(entry.get("Operation")) ?? 0;
+    const uuid = upgradeUUID(entry);
+
+    if (!(attribute instanceof tags.StringTag) || amount === undefined) {
+      conversion.warn("is not a modifier with an attribute and an amount, it was dropped", entryPath);
+      return;
+    }
+
+    if (!uuid) {
+      conversion.warn("has no uuid, it was dropped", entryPath);
+      return;
+    }
+
+    if (!OPERATIONS[operation]) {
+      conversion.warn(`has the unknown operation ${operation}, it was dropped`, entryPath);
+      return;
+    }
+
+    const name = entry.get("Name");
+    const slot = entry.get("Slot");
+
+    modifiers.push(
+      new tags.CompoundTag({
+        type: new tags.StringTag(namespaced(attribute.getValue())),
+        slot: new tags.StringTag(slot instanceof tags.StringTag ? slot.getValue() : "any"),
+        uuid,
+        name: new tags.StringTag(name instanceof tags.StringTag ? name.getValue() : ""),
+        amount: new tags.DoubleTag(amount),
+        operation: new tags.StringTag(OPERATIONS[operation]),
+      }),
+    );
+  });
+
+  return new tags.ListTag(modifiers, tags.Tags.TAG_Compound);
+}
+
+/*
+ * converts an item stack from the {id, Count, tag} layout used before 1.20.5 to the {id, count, components} one.
+ * tag keys that are not converted end up in custom_data like the game does it, a warning is given for the vanilla ones
+ */
+export function toComponentItem(item: tags.Tag): ItemConversion {
+  const source = expectItem(item);
+  const conversion = new Conversion();
+  const result = new Map<string, tags.Tag>();
+
+  // keys next to the item, like the Slot of inventory items, are kept as they are
+  for (const key of source.list()) {
+    if (key === "Count") result.set("count", new tags.IntTag(numericValue(source.get("Count")) ?? 1));
+    else if (key !== "tag") result.set(key, source.get(key)!.clone());
+  }
+
+  if (!result.has("count")) result.set("count", new tags.IntTag(1));
+
+  const legacy = source.get("tag");
+  if (legacy === null) return { item: new tags.CompoundTag(result), warnings: conversion.warnings };
+
+  if (!(legacy instanceof tags.CompoundTag)) {
+    conversion.warn(`expected a compound but got ${legacy.constructor.name}, it was dropped`, ["tag"]);
+    return { item: new tags.CompoundTag(result), warnings: conversion.warnings };
+  }
+
+  const rest = legacy.clone();
+  const components = new Map<string, tags.Tag>();
+  const hideFlags = numericValue(legacy.get("HideFlags")) ?? 0;
+
+  if (hideFlags & ~CONVERTED_FLAGS)
+    conversion.warn("hides tooltips of components that are not converted, those flags were dropped", [
+      "tag",
+      "HideFlags",
+    ]);
+
+  rest.delete("HideFlags");
+
+  const display = legacy.get("display");
+  if (display instanceof tags.CompoundTag) {
+    const leftover = display.clone();
+    const name = display.get("Name");
+    const lore = display.get("Lore");
+    const color = numericValue(display.get("color"));
+
+    if (name instanceof tags.StringTag) {
+      components.set("minecraft:custom_name", name.clone());
+      leftover.delete("Name");
+    } else if (name) conversion.warn(`expected a string but got ${name.constructor.name}`, ["tag", "display", "Name"]);
+
+    if (lore instanceof tags.ListTag && lore.getValues().every((line) => line instanceof tags.StringTag)) {
+      components.set("minecraft:lore", lore.clone());
+      leftover.delete("Lore");
+    } else if (lore) conversion.warn("expected a list of strings", ["tag", "display", "Lore"]);
+
+    if (color !== undefined) {
+      components.set("minecraft:dyed_color", new tags.CompoundTag({ rgb: new tags.IntTag(color | 0) }));
+      leftover.delete("color");
+    }
+
+    for (const key of leftover.list())
+      conversion.warn("is not converted, it was kept in custom_data", ["tag", "display", key]);
+
+    if (leftover.list().length > 0) rest.put("display", leftover);
+    else rest.delete("display");
+  } else if (display) {
+    conversion.warn(`expected a compound but got ${display.constructor.name}, it was kept in custom_data`, [
+      "tag",
+      "display",
+    ]);
+  }
+
+  for (const [key, component] of [
+    ["Enchantments", "minecraft:enchantments"],
+    ["StoredEnchantments", "minecraft:stored_enchantments"],
+  ]) {
+    const list = legacy.get(key);
+    if (!list) continue;
+
+    rest.delete(key);
+
+    const enchantments = upgradeEnchantments(list, ["tag", key], conversion);
+    if (!enchantments) continue;
+
+    if (enchantments.levels.list().length > 0)
+      components.set(component, new tags.CompoundTag({ levels: enchantments.levels }));
+    else if (enchantments.glint && key === "Enchantments")
+      components.set("minecraft:enchantment_glint_override", new tags.ByteTag(1));
+  }
+
+  const damage = legacy.get("Damage");
+  if (damage) {
+    const value = numericValue(damage);
+
+    if (value !== undefined) components.set("minecraft:damage", new tags.IntTag(Math.max(value, 0)));
+    else conversion.warn(`expected a number but got ${damage.constructor.name}, it was dropped`, ["tag", "Damage"]);
+
+    rest.delete("Damage");
+  }
+
+  if (legacy.get("Unbreakable")) {
+    if (numericValue(legacy.get("Unbreakable"))) components.set("minecraft:unbreakable", new tags.CompoundTag({}));
+    rest.delete("Unbreakable");
+  }
+
+  const customModelData = legacy.get("CustomModelData");
+  if (customModelData) {
+    const value = numericValue(customModelData);
+
+    if (value !== undefined) components.set("minecraft:custom_model_data", new tags.IntTag(value | 0));
+    else
+      conversion.warn(`expected a number but got ${customModelData.constructor.name}, it was dropped`, [
+        "tag",
+        "CustomModelData",
+      ]);
+
+    rest.delete("CustomModelData");
+  }
+
+  const attributeModifiers = legacy.get("AttributeModifiers");
+  if (attributeModifiers) {
+    const modifiers = upgradeAttributeModifiers(attributeModifiers, ["tag", "AttributeModifiers"], conversion);
+    if (modifiers) components.set("minecraft:attribute_modifiers", new tags.CompoundTag({ modifiers }));
+
+    rest.delete("AttributeModifiers");
+  }
+
+  for (const [component, flag] of TOOLTIP_FLAGS) {
+    const value = components.get(component);
+    if (value instanceof tags.CompoundTag && hideFlags & flag) value.put("show_in_tooltip", new tags.ByteTag(0));
+  }
+
+  for (const key of rest.list()) {
+    if (UNCONVERTED_KEYS.has(key)) conversion.warn("is not converted, it was kept in custom_data", ["tag", key]);
+  }
+
+  if (rest.list().length > 0) components.set("minecraft:custom_data", rest);
+  if (components.size > 0) result.set("components", new tags.CompoundTag(components));
+
+  return { item: new tags.CompoundTag(result), warnings: conversion.warnings };
+}
+
+function downgradeEnchantments(component: tags.Tag, path: PathSegment[], conversion: Conversion): tags.ListTag | null {
+  const levels = component instanceof tags.CompoundTag ? component.get("levels") : null;
+
+  if (!(levels instanceof tags.CompoundTag)) {
+    conversion.warn("has no levels compound, it was dropped", path);
+    return null;
+  }
+
+  const enchantments: tags.CompoundTag[] = [];
+
+  for (const id of levels.list()) {
+    const level = numericValue(levels.get(id));
+
+    if (level === undefined) {
+      conversion.warn("is not a number, it was dropped", [...path, "levels", id]);
+      continue;
+    }
+
+    enchantments.push(new tags.CompoundTag({ id: new tags.StringTag(id), lvl: new tags.ShortTag(level) }));
+  }
+
+  return new tags.ListTag(enchantments, tags.Tags.TAG_Compound);
+}
+
+function downgradeAttributeModifiers(
+  component: tags.Tag,
+  path: PathSegment[],
+  conversion: Conversion,
+): tags.ListTag | null {
+  const list = component instanceof tags.CompoundTag ? component.get("modifiers") : null;
+
+  if (!(list instanceof tags.ListTag)) {
+    conversion.warn("has no modifiers list, it was dropped", path);
+    return null;
+  }
+
+  const modifiers: tags.CompoundTag[] = [];
+
+  list.getValues().forEach((entry, index) => {
+    const entryPath = [...path, "modifiers", index];
+    const modifier = entry instanceof tags.CompoundTag ? entry : null;
+
+    const type = modifier?.get("type");
+    const uuid = modifier?.get("uuid");
+    const amount = numericValue(modifier?.get("amount") ?? null);
+    const operation = modifier?.get("operation");
+    const slot = modifier?.get("slot");
+    const name = modifier?.get("name");
+
+    if (!(type instanceof tags.StringTag) || !(uuid instanceof tags.IntArrayTag) || amount === undefined) {
+      conversion.warn("is not a modifier with a type, a uuid and an amount, it was dropped", entryPath);
+      return;
+    }
+
+    const operationIndex = operation instanceof tags.StringTag ? OPERATIONS.indexOf(operation.getValue()) : 0;
+    if (operationIndex < 0) {
+      conversion.warn(
+        `has the unknown operation ${(operation as tags.StringTag).getValue()}, it was dropped`,
+        entryPath,
+      );
+      return;
+    }
+
+    const slotName = slot instanceof tags.StringTag ? slot.getValue() : "any";
+    if (slotName !== "any" && !LEGACY_SLOTS.includes(slotName)) {
+      conversion.warn(
+        `applies to the '${slotName}' slot group, which has no legacy equivalent, it was dropped`,
+        entryPath,
+      );
+      return;
+    }
+
+    const legacy = new tags.CompoundTag({
+      AttributeName: new tags.StringTag(type.getValue()),
+      Name: new tags.StringTag(name instanceof tags.StringTag ? name.getValue() : ""),
+      Amount: new tags.DoubleTag(amount),
+      Operation: new tags.IntTag(operationIndex),
+      UUID: new tags.IntArrayTag(uuid.getValues()),
+    });
+
+    if (slotName !== "any") legacy.put("Slot", new tags.StringTag(slotName));
+    modifiers.push(legacy);
+  });
+
+  return new tags.ListTag(modifiers, tags.Tags.TAG_Compound);
+}
+
+/*
+ * converts an item stack from the {id, count, components} layout of 1.20.5 to the {id, Count, tag} one used before.
+ * custom_data becomes the tag again, components without a legacy equivalent are dropped with a warning
+ */
+export function toLegacyItem(item: tags.Tag): ItemConversion {
+  const source = expectItem(item);
+  const conversion = new Conversion();
+  const result = new Map<string, tags.Tag>();
+
+  for (const key of source.list()) {
+    if (key === "count") {
+      const count = numericValue(source.get("count")) ?? 1;
+      if (count > 127) conversion.warn(`${count} does not fit in the legacy byte count, it was clamped to 127`, [key]);
+
+      result.set("Count", new tags.ByteTag(Math.min(count, 127)));
+    } else if (key !== "components") result.set(key, source.get(key)!.clone());
+  }
+
+  if (!result.has("Count")) result.set("Count", new tags.ByteTag(1));
+
+  const components = source.get("components");
+  if (components === null) return { item: new tags.CompoundTag(result), warnings: conversion.warnings };
+
+  if (!(components instanceof tags.CompoundTag)) {
+    conversion.warn(`expected a compound but got ${components.constructor.name}, it was dropped`, ["components"]);
+    return { item: new tags.CompoundTag(result), warnings: conversion.warnings };
+  }
+
+  const customData = components.get("minecraft:custom_data") ?? components.get("custom_data");
+  const legacy = customData instanceof tags.CompoundTag ? customData.clone() : new tags.CompoundTag({});
+
+  if (customData && !(customData instanceof tags.CompoundTag))
+    conversion.warn(`expected a compound but got ${customData.constructor.name}, it was dropped`, [
+      "components",
+      "minecraft:custom_data",
+    ]);
+
+  const display = legacy.get("display") instanceof tags.CompoundTag ? legacy.get<tags.CompoundTag>("display")! : null;
+  const displayed = display ?? new tags.CompoundTag({});
+
+  // converted values win over keys with the same name in custom_data
+  const put = (target: tags.CompoundTag, key: string, value: tags.Tag, path: PathSegment[]) => {
+    if (target.get(key)) conversion.warn(`replaces the '${key}' custom_data already had`, path);
+    target.put(key, value);
+  };
+
+  let hideFlags = 0;
+  let glint = false;
+
+  for (const key of components.list()) {
+    const component = components.get(key)!;
+    const name = namespaced(key);
+    const path = ["components", key];
+
+    if (!showsInTooltip(component)) {
+      const flag = TOOLTIP_FLAGS.find(([flagged]) => flagged === name)?.[1];
+      if (flag !== undefined) hideFlags |= flag;
+    }
+
+    switch (name) {
+      case "minecraft:custom_data":
+        break;
+
+      case "minecraft:custom_name":
+      case "minecraft:lore":
+        if (name === "minecraft:custom_name" ? component instanceof tags.StringTag : component instanceof tags.ListTag)
+          put(displayed, name === "minecraft:custom_name" ? "Name" : "Lore", component.clone(), path);
+        else conversion.warn(`cannot convert a ${component.constructor.name}, it was dropped`, path);
+        break;
+
+      case "minecraft:dyed_color": {
+        const rgb =
+          component instanceof tags.CompoundTag ? numericValue(component.get("rgb")) : numericValue(component);
+
+        if (rgb !== undefined) put(displayed, "color", new tags.IntTag(rgb | 0), path);
+        else conversion.warn("has no rgb value, it was dropped", path);
+        break;
+      }
+
+      case "minecraft:enchantments":
+      case "minecraft:stored_enchantments": {
+        const list = downgradeEnchantments(component, path, conversion);
+        if (list) put(legacy, name === "minecraft:enchantments" ? "Enchantments" : "StoredEnchantments", list, path);
+        break;
+      }
+
+      case "minecraft:enchantment_glint_override":
+        if (numericValue(component)) glint = true;
+        else conversion.warn("turning the glint off has no legacy equivalent, it was dropped", path);
+        break;
+
+      case "minecraft:damage":
+      case "minecraft:custom_model_data": {
+        const value = numericValue(component);
+
+        if (value !== undefined)
+          put(legacy, name === "minecraft:damage" ? "Damage" : "CustomModelData", new tags.IntTag(value | 0), path);
+        else conversion.warn(`expected a number but got ${component.constructor.name}, it was dropped`, path);
+        break;
+      }
+
+      case "minecraft:unbreakable":
+        put(legacy, "Unbreakable", new tags.ByteTag(1), path);
+        break;
+
+      case "minecraft:attribute_modifiers": {
+        const list = downgradeAttributeModifiers(component, path, conversion);
+        if (list) put(legacy, "AttributeModifiers", list, path);
+        break;
+      }
+
+      default:
+        conversion.warn("has no legacy equivalent in this converter, it was dropped", path);
+    }
+  }
+
+  // an empty enchantment is how items glinted before the override existed
+  if (glint && !legacy.get("Enchantments"))
+    legacy.put("Enchantments", new tags.ListTag([new tags.CompoundTag({})], tags.Tags.TAG_Compound));
+
+  if (displayed.list().length > 0 && !display) legacy.put("display", displayed);
+  if (hideFlags) put(legacy, "HideFlags", new tags.IntTag(hideFlags), ["components"]);
+
+  if (legacy.list().length > 0) result.set("tag", legacy);
+  return { item: new tags.CompoundTag(result), warnings: conversion.warnings };
+}
@@ -0,0 +1,354 @@
+import * as tags from "./tags";
+import { describeValue, INTEGER_RANGES, stringifyPath, type PathSegment } from "./util";
+
+/*
+ * the typed format stores every tag as {type, value}:
+ *
+ *   byte, short, int       -> number
+ *   long                   -> decimal string, json numbers cannot hold 64 bits
+ *   float, double          -> number, or "NaN", "Infinity", "-Infinity" and "-0"
+ *   string                 -> string
+ *   byte_array, int_array  -> number[]
+ *   long_array             -> decimal string[]
+ *   compound               -> object of typed tags
+ *   list                   -> array of typed tags, plus the element type so empty lists keep it
+ *
+ * e.g. {"type": "list", "elementType": "long", "value": [{"type": "long", "value": "1"}]}
+ */
+export type JSONTagType =
+  | "byte"
+  | "short"
+  | "int"
+  | "long"
+  | "float"
+  | "double"
+  | "byte_array"
+  | "string"
+  | "list"
+  | "compound"
+  | "int_array"
+  | "long_array";
+
+export type JSONTag =
+  | { type: "byte" | "short" | "int"; value: number }
+  | { type: "long"; value: string }
+  | { type: "float" | "double"; value: number | string }
+  | { type: "string"; value: string }
+  | { type: "byte_array" | "int_array"; value: number[] }
+  | { type: "long_array"; value: string[] }
+  | { type: "list"; elementType: JSONTagType | "end"; value: JSONTag[] }
+  | { type: "compound"; value: Record<string, JSONTag> };
+
+/*
+ * the compat format is the {type, value} shape used by prismarine-nbt and tools built on it:
+ * camelCase array types, longs as [high, low] int32 pairs and lists as {type, value: [raw values]}
+ */
+export type CompatJSONTagType =
+  | "end"
+  | "byte"
+  | "short"
+  | "int"
+  | "long"
+  | "float"
+  | "double"
+  | "byteArray"
+  | "string"
+  | "list"
+  | "compound"
+  | "intArray"
+  | "longArray";
+
+export interface CompatJSONTag {
+  type: CompatJSONTagType;
+  value: unknown;
+  name?: string;
+}
+
+export type JSONFormat = "typed" | "compat";
+
+export interface JSONOptions {
+  format?: JSONFormat;
+}
+
+const TYPED_NAMES: Record<number, JSONTagType> = {
+  [tags.Tags.TAG_Byte]: "byte",
+  [tags.Tags.TAG_Short]: "short",
+  [tags.Tags.TAG_Int]: "int",
+  [tags.Tags.TAG_Long]: "long",
+  [tags.Tags.TAG_Float]: "float",
+  [tags.Tags.TAG_Double]: "double",
+  [tags.Tags.TAG_Byte_Array]: "byte_array",
+  [tags.Tags.TAG_String]: "string",
+  [tags.Tags.TAG_List]: "list",
+  [tags.Tags.TAG_Compound]: "compound",
+  [tags.Tags.TAG_Int_Array]: "int_array",
+  [tags.Tags.TAG_Long_Array]: "long_array",
+};
+
+const COMPAT_NAMES: Record<number, CompatJSONTagType> = {
+  [tags.Tags.TAG_End]: "end",
+  [tags.Tags.TAG_Byte]: "byte",
+  [tags.Tags.TAG_Short]: "short",
+  [tags.Tags.TAG_Int]: "int",
+  [tags.Tags.TAG_Long]: "long",
+  [tags.Tags.TAG_Float]: "float",
+  [tags.Tags.TAG_Double]: "double",
+  [tags.Tags.TAG_Byte_Array]: "byteArray",
+  [tags.Tags.TAG_String]: "string",
+  [tags.Tags.TAG_List]: "list",
+  [tags.Tags.TAG_Compound]: "compound",
+  [tags.Tags.TAG_Int_Array]: "intArray",
+  [tags.Tags.TAG_Long_Array]: "longArray",
+};
+
+const TYPED_IDS = new Map<unknown, tags.Tags>(
+  Object.entries({ ...TYPED_NAMES, [tags.Tags.TAG_End]: "end" }).map(([id, name]) => [name, Number(id)]),
+);
+
+const COMPAT_IDS = new Map<unknown, tags.Tags>(Object.entries(COMPAT_NAMES).map(([id, name]) => [name, Number(id)]));
+
+function isNamedTag(tag: tags.Tag | tags.NamedTag): tag is tags.NamedTag {
+  return !(tag instanceof tags.Tag);
+}
+
+function floatToJSON(value: number): number | string {
+  if (Number.isNaN(value) || !Number.isFinite(value)) return `${value}`;
+  if (Object.is(value, -0)) return "-0";
+
+  return value;
+}
+
+function longPair(value: bigint): [number, number] {
+  return [Number(BigInt.asIntN(32, value >> 32n)), Number(BigInt.asIntN(32, value))];
+}
+
+function typedToJSON(tag: tags.Tag): JSONTag {
+  const type = TYPED_NAMES[tag.getId()];
+
+  if (tag instanceof tags.CompoundTag) {
+    // without a prototype a "__proto__" key is kept as a plain property
+    const value: Record<string, JSONTag> = Object.create(null);
+    for (const key of tag.list()) value[key] = typedToJSON(tag.get(key)!);
+
+    return { type: "compound", value };
+  }
+
+  if (tag instanceof tags.ListTag) {
+    const elementType = tag.getElementType();
+
+    return {
+      type: "list",
+      elementType: elementType === tags.Tags.TAG_End ? "end" : TYPED_NAMES[elementType],
+      value: tag.getValues().map(typedToJSON),
+    };
+  }
+
+  if (tag instanceof tags.ByteArrayTag || tag instanceof tags.IntArrayTag)
+    return { type: type as "byte_array", value: Array.from(tag.getValues()) };
+
+  if (tag instanceof tags.LongArrayTag) return { type: "long_array", value: Array.from(tag.getValues(), String) };
+  if (tag instanceof tags.LongTag) return { type: "long", value: `${tag.getValue()}` };
+
+  if (tag instanceof tags.FloatTag || tag instanceof tags.DoubleTag)
+    return { type: type as "float", value: floatToJSON(tag.getValue()) };
+
+  if (tag instanceof tags.LiteralTag) return { type: type as "int", value: tag.getValue() };
+
+  throw new Error(`cannot convert tag '${tag.constructor.name}' to json`);
+}
+
+// values inside compat lists are stored without their {type, value} wrapper
+function compatValue(tag: tags.Tag): unknown {
+  if (tag instanceof tags.CompoundTag) {
+    const value: Record<string, CompatJSONTag> = Object.create(null);
+    for (const key of tag.list()) value[key] = compatToJSON(tag.get(key)!);
+
+    return value;
+  }
+
+  if (tag instanceof tags.ListTag) {
+    return { type: COMPAT_NAMES[tag.getElementType()], value: tag.getValues().map(compatValue) };
+  }
+
+  if (tag instanceof tags.ByteArrayTag || tag instanceof tags.IntArrayTag) return Array.from(tag.getValues());
+  if (tag instanceof tags.LongArrayTag) return Array.from(tag.getValues(), longPair);
+  if (tag instanceof tags.LongTag) return longPair(tag.getValue());
+
+  // json has no NaN or Infinity, they are written like in the typed format
+  if ((tag instanceof tags.FloatTag || tag instanceof tags.DoubleTag) && !Number.isFinite(tag.getValue()))
+    return `${tag.getValue()}`;
+
+  if (tag instanceof tags.LiteralTag) return tag.getValue();
+
+  throw new Error(`cannot convert tag '${tag.constructor.name}' to json`);
+}
+
+function compatToJSON(tag: tags.Tag): CompatJSONTag {
+  return { type: COMPAT_NAMES[tag.getId()], value: compatValue(tag) };
+}
+
+class JSONReader {
+  private path: PathSegment[] = [];
+
+  constructor(private format: JSONFormat) {}
+
+  private error(reason: string): never {
+    const path = stringifyPath(this.path);
+    throw new Error(path ? `${reason} at '${path}'` : reason);
+  }
+
+  private expectObject(json: unknown): Record<string, unknown> {
+    if (typeof json !== "object" || json === null || Array.isArray(json))
+      this.error(`expected an object but got ${describeValue(json)}`);
+
+    return json as Record<string, unknown>;
+  }
+
+  private expectArray(json: unknown): unknown[] {
+    if (!Array.isArray(json)) this.error(`expected an array but got ${describeValue(json)}`);
+    return json;
+  }
+
+  private readElements<T>(json: unknown, read: (item: unknown) => T): T[] {
+    return this.expectArray(json).map((item, index) => {
+      this.path.push(index);
+      const value = read(item);
+      this.path.pop();
+
+      return value;
+    });
+  }
+
+  private readInteger(json: unknown, type: string): number {
+    const [min, max] = INTEGER_RANGES[type];
+
+    if (typeof json !== "number" || !Number.isInteger(json))
+      this.error(`expected an integer but got ${describeValue(json)}`);
+    if (json < min || json > max) this.error(`${json} is out of range for a ${type}`);
+
+    return json;
+  }
+
+  private readFloat(json: unknown): number {
+    if (typeof json === "number") return json;
+    if (json === "NaN" || json === "Infinity" || json === "-Infinity" || json === "-0") return Number(json);
+
+    this.error(`expected a number but got ${describeValue(json)}`);
+  }
+
+  private readLong(json: unknown): bigint {
+    let value: bigint;
+
+    if (this.format === "compat" && Array.isArray(json) && json.length === 2) {
+      const [high, low] = json.map((part) => this.readInteger(part, "int"));
+      value = (BigInt(high) << 32n) | BigInt(low >>> 0);
+    } else if (typeof json === "string" && /^-?\d+$/.test(json)) {
+      value = BigInt(json);
+    } else if (typeof json === "number" && Number.isSafeInteger(json)) {
+      value = BigInt(json);
+    } else {
+      this.error(`expected a long but got ${describeValue(json)}`);
+    }
+
+    if (value !== BigInt.asIntN(64, value)) this.error(`${value} is out of range for a long`);
+    return value;
+  }
+
+  private readCompound(json: unknown): tags.CompoundTag {
+    const items = new Map<string, tags.Tag>();
+
+    for (const [key, item] of Object.entries(this.expectObject(json))) {
+      this.path.push(key);
+      items.set(key, this.read(item));
+      this.path.pop();
+    }
+
+    return new tags.CompoundTag(items);
+  }
+
+  private readCompatList(json: unknown): tags.ListTag {
+    const list = this.expectObject(json);
+    const elementType = COMPAT_IDS.get(list.type);
+
+    if (elementType === undefined) this.error(`unknown list element type ${describeValue(list.type)}`);
+    if (elementType === tags.Tags.TAG_End && this.expectArray(list.value).length > 0)
+      this.error("a list of end tags cannot contain values");
+
+    return new tags.ListTag(
+      this.readElements(list.value, (item) => this.readValue(list.type, item)),
+      elementType,
+    );
+  }
+
+  private readTypedList(json: unknown, elementTypeName: unknown): tags.ListTag {
+    const elementType = TYPED_IDS.get(elementTypeName);
+    if (elementType === undefined) this.error(`unknown list element type ${describeValue(elementTypeName)}`);
+
+    const items = this.readElements(json, (item) => {
+      const tag = this.read(item);
+
+      if (tag.getId() !== elementType)
+        this.error(`expected a ${elementTypeName} element but got ${describeValue(TYPED_NAMES[tag.getId()])}`);
+
+      return tag;
+    });
+
+    if (elementType === tags.Tags.TAG_End && items.length > 0) this.error("a list of end tags cannot contain values");
+    return new tags.ListTag(items, elementType);
+  }
+
+  private readValue(type: unknown, value: unknown, elementType?: unknown): tags.Tag {
+    const compat = this.format === "compat";
+
+    switch (type) {
+      case "byte":
+        return new tags.ByteTag(this.readInteger(value, type));
+      case "short":
+        return new tags.ShortTag(this.readInteger(value, type));
+      case "int":
+        return new tags.IntTag(this.readInteger(value, type));
+      case "long":
+        return new tags.LongTag(this.readLong(value));
+      case "float":
+        return new tags.FloatTag(Math.fround(this.readFloat(value)));
+      case "double":
+        return new tags.DoubleTag(this.readFloat(value));
+      case "string":
+        if (typeof value !== "string") this.error(`expected a string but got ${describeValue(value)}`);
+        return new tags.StringTag(value);
+      case compat ? "byteArray" : "byte_array":
+        return new tags.ByteArrayTag(this.readElements(value, (item) => this.readInteger(item, "byte")));
+      case compat ? "intArray" : "int_array":
+        return new tags.IntArrayTag(this.readElements(value, (item) => this.readInteger(item, "int")));
+      case compat ? "longArray" : "long_array":
+        return new tags.LongArrayTag(this.readElements(value, (item) => this.readLong(item)));
+      case "compound":
+        return this.readCompound(value);
+      case "list":
+        return compat ? this.readCompatList(value) : this.readTypedList(value, elementType);
+    }
+
+    this.error(`unknown tag type ${describeValue(type)}`);
+  }
+
+  read(json: unknown): tags.Tag {
+    const object = this.expectObject(json);
+    return this.readValue(object.type, object.value, object.elementType);
+  }
+}
+
+// a named root keeps its name in a top level "name" field
+export function toJSON(tag: tags.Tag | tags.NamedTag, options: JSONOptions & { format: "compat" }): CompatJSONTag;
+export function toJSON(tag: tags.Tag | tags.NamedTag, options?: JSONOptions & { format?: "typed" }): JSONTag;
+export function toJSON(tag: tags.Tag | tags.NamedTag, options?: JSONOptions): JSONTag | CompatJSONTag;
+export function toJSON(tag: tags.Tag | tags.NamedTag, options: JSONOptions = {}): JSONTag | CompatJSONTag {
+  const root = isNamedTag(tag) ? tag.tag : tag;
+  const json = options.format === "compat" ? compatToJSON(root) : typedToJSON(root);
+
+  return isNamedTag(tag) ? Object.assign({ name: tag.name }, json) : json;
+}
+
+// accepts the parsed json value, not the json text. a root "name" field is ignored
+export function fromJSON(json: unknown, options: JSONOptions = {}): tags.Tag {
+  return new JSONReader(options.format ?? "typed").read(json);
+}
@@ -0,0 +1,110 @@
+import * as tags from "./tags";
+import type { ResourceLimit } from "./errors";
+
+// limits for parsing untrusted data, only the depth is limited by default like the game does
+export interface ParseLimits {
+  // compounds and lists nested in each other, the root counts as the first level
+  maxDepth?: number;
+  // estimated memory the parsed tags may take, with the sizes the game's NbtAccounter uses
+  maxBytes?: number;
+  // in bytes for nbt and characters for snbt, keys included
+  maxStringLength?: number;
+  // elements of a list or array
+  maxArrayLength?: number;
+}
+
+export const DEFAULT_MAX_DEPTH = 512;
+
+// bytes charged per tag, lists and arrays also pay for their elements and compounds for their entries
+export const TAG_SIZES = {
+  byte: 9,
+  short: 10,
+  int: 12,
+  long: 16,
+  float: 12,
+  double: 16,
+  string: 36,
+  array: 24,
+  list: 36,
+  listElement: 4,
+  compound: 48,
+  compoundEntry: 32,
+};
+
+export const LITERAL_SIZES: Record<number, number> = {
+  [tags.Tags.TAG_Byte]: TAG_SIZES.byte,
+  [tags.Tags.TAG_Short]: TAG_SIZES.short,
+  [tags.Tags.TAG_Int]: TAG_SIZES.int,
+  [tags.Tags.TAG_Long]: TAG_SIZES.long,
+  [tags.Tags.TAG_Float]: TAG_SIZES.float,
+  [tags.Tags.TAG_Double]: TAG_SIZES.double,
+};
+
+export function stringSize(length: number): number {
+  return TAG_SIZES.string + 2 * length;
+}
+
+// what a tag costs on its own, without the tags inside it
+export function shallowTagSize(tag: tags.Tag): number {
+  if (tag instanceof tags.CompoundTag)
+    return tag
+      .list()
+      .reduce((size, key) => size + TAG_SIZES.compoundEntry + stringSize(key.length), TAG_SIZES.compound);
+
+  if (tag instanceof tags.ListTag) return TAG_SIZES.list + TAG_SIZES.listElement * tag.size();
+  if (tag instanceof tags.ByteArrayTag) return TAG_SIZES.array + tag.size();
+  if (tag instanceof tags.IntArrayTag) return TAG_SIZES.array + 4 * tag.size();
+  if (tag instanceof tags.LongArrayTag) return TAG_SIZES.array + 8 * tag.size();
+  if (tag instanceof tags.StringTag) return stringSize(tag.getValue().length);
+
+  if (tag instanceof tags.ByteTag) return TAG_SIZES.byte;
+  if (tag instanceof tags.ShortTag) return TAG_SIZES.short;
+  if (tag instanceof tags.IntTag) return TAG_SIZES.int;
+  if (tag instanceof tags.FloatTag) return TAG_SIZES.float;
+  if (tag instanceof tags.LongTag) return TAG_SIZES.long;
+
+  return TAG_SIZES.double;
+}
+
+// keeps track of the depth and the bytes used while parsing, the parser decides how a violation is reported
+export class LimitAccounter {
+  private depth: number = 0;
+  private used: number = 0;
+  private maxDepth: number;
+  private maxBytes: number;
+  private maxStringLength: number;
+  private maxArrayLength: number;
+
+  constructor(
+    limits: ParseLimits,
+    private fail: (reason: string, limit: ResourceLimit) => never,
+  ) {
+    this.maxDepth = limits.maxDepth ?? DEFAULT_MAX_DEPTH;
+    this.maxBytes = limits.maxBytes ?? Infinity;
+    this.maxStringLength = limits.maxStringLength ?? Infinity;
+    this.maxArrayLength = limits.maxArrayLength ?? Infinity;
+  }
+
+  enter() {
+    if (++this.depth > this.maxDepth) this.fail(`tags are nested deeper than ${this.maxDepth} levels`, "depth");
+  }
+
+  exit() {
+    this.depth--;
+  }
+
+  account(bytes: number) {
+    this.used += bytes;
+    if (this.used > this.maxBytes) this.fail(`the data takes more than the ${this.maxBytes} bytes allowed`, "bytes");
+  }
+
+  checkString(length: number) {
+    if (length > this.maxStringLength)
+      this.fail(`string of length ${length} is longer than the ${this.maxStringLength} allowed`, "string");
+  }
+
+  checkLength(length: number) {
+    if (length > this.maxArrayLength)
+      this.fail(`${length} elements are more than the ${this.maxArrayLength} allowed`, "length");
+  }
+}
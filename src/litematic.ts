@@ -0,0 +1,237 @@
+import * as tags from "./tags";
+import * as codecs from "./codec";
+import { CodecError } from "./errors";
+import { stringifyPath, type PathSegment } from "./util";
+import { blockStateCodec, type BlockState } from "./block";
+import { bitsFor, packBits, unpackBits } from "./bits";
+import { AIR, BlockVolume, withBlockPosition, withoutKeys } from "./volume";
+import type { Vector3 } from "./structure";
+
+export interface LitematicRegion {
+  name: string;
+  // the lowest corner of the region
+  position: Vector3;
+  volume: BlockVolume;
+}
+
+export interface Litematic {
+  name: string;
+  author: string;
+  description: string;
+  regions: LitematicRegion[];
+}
+
+// the version litematica 0.15 and later write
+const LITEMATIC_VERSION = 6;
+
+const VECTOR = codecs.compound({ x: codecs.int, y: codecs.int, z: codecs.int });
+
+const REGION = codecs.compound({
+  Position: VECTOR,
+  Size: VECTOR,
+  BlockStatePalette: codecs.list(blockStateCodec),
+  BlockStates: codecs.longArray,
+  TileEntities: codecs.defaulted(codecs.list(codecs.compoundTag), []),
+  Entities: codecs.defaulted(codecs.list(codecs.compoundTag), []),
+});
+
+const LITEMATIC = codecs.compound({
+  Version: codecs.int,
+  MinecraftDataVersion: codecs.optional(codecs.int),
+  Metadata: codecs.optional(
+    codecs.compound({
+      Name: codecs.defaulted(codecs.string, ""),
+      Author: codecs.defaulted(codecs.string, ""),
+      Description: codecs.defaulted(codecs.string, ""),
+    }),
+  ),
+  Regions: codecs.map(REGION),
+});
+
+const ENTITY_POSITION = codecs.compound({ Pos: codecs.list(codecs.double) });
+
+function fail(reason: string, path: PathSegment[]): never {
+  throw new CodecError(reason, stringifyPath(path));
+}
+
+// litematica never packs fewer than 2 bits per block
+function bitsPerBlock(paletteSize: number): number {
+  return Math.max(2, bitsFor(paletteSize));
+}
+
+function writeVector([x, y, z]: Vector3): tags.CompoundTag {
+  return new tags.CompoundTag({ x: new tags.IntTag(x), y: new tags.IntTag(y), z: new tags.IntTag(z) });
+}
+
+/*
+ * sizes can be negative when the region was selected from its far corner, the region then extends from
+ * its position towards lower coordinates. pending block and fluid ticks are not read
+ */
+export function readLitematic(tag: tags.Tag): Litematic {
+  const litematic = LITEMATIC.decode(tag);
+  const regions: LitematicRegion[] = [];
+
+  for (const [name, region] of Object.entries(litematic.Regions)) {
+    const path: PathSegment[] = ["Regions", name];
+    const origin: Vector3 = [region.Position.x, region.Position.y, region.Position.z];
+    const extent: Vector3 = [region.Size.x, region.Size.y, region.Size.z];
+
+    const size = extent.map(Math.abs) as Vector3;
+    const position = origin.map((value, axis) => (extent[axis] < 0 ? value + extent[axis] + 1 : value)) as Vector3;
+    const count = size[0] * size[1] * size[2];
+
+    const palette: BlockState[] = region.BlockStatePalette.length > 0 ? region.BlockStatePalette : [AIR];
+    const bits = bitsPerBlock(palette.length);
+
+    if (region.BlockStates.length < Math.ceil((count * bits) / 64))
+      fail(`has ${region.BlockStates.length} longs but ${count} blocks need ${Math.ceil((count * bits) / 64)}`, [
+        ...path,
+        "BlockStates",
+      ]);
+
+    const data = unpackBits(region.BlockStates, bits, count);
+
+    for (let i = 0; i < count; i++) {
+      if (data[i] >= palette.length) fail(`block ${i} has state ${data[i]}, which is not in the palette`, path);
+    }
+
+    const volume = BlockVolume.fromData(size, palette, data, litematic.MinecraftDataVersion);
+
+    // block entities are stored relative to the lowest corner
+    region.TileEntities.forEach((entry, index) => {
+      const { x, y, z } = VECTOR.read(entry, [...path, "TileEntities", index]);
+
+      if (!volume.contains(x, y, z))
+        fail(`${x}, ${y}, ${z} is outside of the region`, [...path, "TileEntities", index]);
+
+      volume.setBlockEntity(x, y, z, withoutKeys(entry, ["x", "y", "z"]));
+    });
+
+    // entities are stored relative to the region's position rather than its lowest corner
+    volume.entities = region.Entities.map((entry, index) => {
+      const pos = ENTITY_POSITION.read(entry, [...path, "Entities", index]).Pos;
+      if (pos.length !== 3) fail(`expected 3 coordinates but got ${pos.length}`, [...path, "Entities", index, "Pos"]);
+
+      return {
+        pos: pos.map((value, axis) => value + origin[axis] - position[axis]) as Vector3,
+        nbt: withoutKeys(entry, ["Pos"]),
+      };
+    });
+
+    regions.push({ name, position, volume });
+  }
+
+  return {
+    name: litematic.Metadata?.Name ?? "",
+    author: litematic.Metadata?.Author ?? "",
+    description: litematic.Metadata?.Description ?? "",
+    regions,
+  };
+}
+
+export function writeLitematic(litematic: Litematic): tags.NamedTag {
+  if (litematic.regions.length === 0) throw new Error("a litematic needs at least one region");
+
+  const regions = new Map<string, tags.Tag>();
+  const min: Vector3 = [Infinity, Infinity, Infinity];
+  const max: Vector3 = [-Infinity, -Infinity, -Infinity];
+
+  let totalVolume = 0;
+  let totalBlocks = 0;
+
+  for (const region of litematic.regions) {
+    if (regions.has(region.name)) throw new Error(`there are two regions named '${region.name}'`);
+
+    const volume = BlockVolume.fromData(region.volume.getSize(), region.volume.getPalette(), region.volume.getData());
+    volume.compactPalette();
+
+    const size = volume.getSize();
+    const palette = volume.getPalette();
+    const data = volume.getData();
+
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], region.position[axis]);
+      max[axis] = Math.max(max[axis], region.position[axis] + size[axis]);
+    }
+
+    totalVolume += data.length;
+    for (const index of data) if (palette[index].name !== AIR.name) totalBlocks++;
+
+    const blockEntities = region.volume.listBlockEntities().map(({ x, y, z, nbt }) => withBlockPosition(nbt, x, y, z));
+
+    const entities = region.volume.entities.map((entity) => {
+      const entry = withoutKeys(entity.nbt, []);
+      entry.put("Pos", new tags.ListTag(entity.pos.map((value) => new tags.DoubleTag(value))));
+
+      return entry;
+    });
+
+    regions.set(
+      region.name,
+      new tags.CompoundTag({
+        Position: writeVector(region.position),
+        Size: writeVector(size),
+        BlockStatePalette: new tags.ListTag(
+          palette.map((state) => blockStateCodec.encode(state)),
+          tags.Tags.TAG_Compound,
+        ),
+        BlockStates: new tags.LongArrayTag(packBits(data, bitsPerBlock(palette.length))),
+        TileEntities: new tags.ListTag(blockEntities, tags.Tags.TAG_Compound),
+        Entities: new tags.ListTag(entities, tags.Tags.TAG_Compound),
+      }),
+    );
+  }
+
+  const now = BigInt(Date.now());
+  const root = new Map<string, tags.Tag>([
+    ["Version", new tags.IntTag(LITEMATIC_VERSION)],
+    ["SubVersion", new tags.IntTag(1)],
+  ]);
+
+  const dataVersion = litematic.regions[0].volume.dataVersion;
+  if (dataVersion !== undefined) root.set("MinecraftDataVersion", new tags.IntTag(dataVersion));
+
+  root.set(
+    "Metadata",
+    new tags.CompoundTag({
+      Name: new tags.StringTag(litematic.name),
+      Author: new tags.StringTag(litematic.author),
+      Description: new tags.StringTag(litematic.description),
+      RegionCount: new tags.IntTag(litematic.regions.length),
+      TotalVolume: new tags.IntTag(totalVolume),
+      TotalBlocks: new tags.IntTag(totalBlocks),
+      TimeCreated: new tags.LongTag(now),
+      TimeModified: new tags.LongTag(now),
+      EnclosingSize: writeVector(max.map((value, axis) => value - min[axis]) as Vector3),
+    }),
+  );
+
+  root.set("Regions", new tags.CompoundTag(regions));
+
+  return { name: "", tag: new tags.CompoundTag(root) };
+}
+
+// one volume covering every region, regions listed later win where they overlap
+export function mergeLitematicRegions(regions: LitematicRegion[]): BlockVolume {
+  if (regions.length === 0) throw new Error("there are no regions to merge");
+
+  const min = regions[0].position.slice() as Vector3;
+  const max = regions[0].position.slice() as Vector3;
+
+  for (const region of regions) {
+    const size = region.volume.getSize();
+
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], region.position[axis]);
+      max[axis] = Math.max(max[axis], region.position[axis] + size[axis]);
+    }
+  }
+
+  const volume = new BlockVolume(max.map((value, axis) => value - min[axis]) as Vector3, regions[0].volume.dataVersion);
+
+  for (const region of regions) {
+    volume.paste(region.volume, region.position.map((value, axis) => value - min[axis]) as Vector3);
+  }
+
+  return volume;
+}
@@ -0,0 +1,162 @@
+import * as tags from "./tags";
+import { diff, type Change, type Patch } from "./diff";
+import { MigrationError } from "./errors";
+import type { PathSegment } from "./util";
+
+export type DataType = "chunk" | "entity" | "item_stack" | "block_entity" | "level";
+
+// changes the tag in place
+export type FixFunction = (tag: tags.CompoundTag) => void;
+
+export interface Fix {
+  // the data version the fix upgrades to, it runs for data older than that
+  version: number;
+  type: DataType;
+  name: string;
+  apply: FixFunction;
+}
+
+// data of other types nested in a tag, like the block entities of a chunk, for the layout at that data version
+export type NestedDataFinder = (tag: tags.CompoundTag, version: number) => [tags.CompoundTag, DataType][];
+
+export interface MigrateOptions {
+  // the version the data was written with, read from its DataVersion when left out
+  from?: number;
+  // defaults to the newest fix
+  to?: number;
+}
+
+export interface AppliedFix {
+  version: number;
+  type: DataType;
+  name: string;
+  // relative to the migrated tag
+  changes: Patch;
+}
+
+export interface MigrationReport {
+  from: number;
+  to: number;
+  // the fixes that changed something, in the order they ran
+  applied: AppliedFix[];
+}
+
+// a tag of some data type and where it is in the migrated tag, null when a finder returned a tag outside of it
+type Target = [tag: tags.CompoundTag, type: DataType, path: PathSegment[] | null];
+
+// where target is under tag, null when it isn't there
+function locate(tag: tags.Tag, target: tags.Tag, path: PathSegment[] = []): PathSegment[] | null {
+  if (tag === target) return path;
+
+  if (tag instanceof tags.CompoundTag) {
+    for (const key of tag.list()) {
+      const found = locate(tag.get(key)!, target, [...path, key]);
+      if (found) return found;
+    }
+  } else if (tag instanceof tags.ListTag) {
+    const items = tag.getValues();
+
+    for (let i = 0; i < items.length; i++) {
+      const found = locate(items[i], target, [...path, i]);
+      if (found) return found;
+    }
+  }
+
+  return null;
+}
+
+// moves a change of a target under its path, new tags are copied since later fixes keep changing the tree
+function relocate(change: Change, path: PathSegment[]): Change {
+  const moved = { ...change, path: [...path, ...change.path] };
+
+  if (moved.type === "add" || moved.type === "insert") moved.value = moved.value.clone();
+  if (moved.type === "change" || moved.type === "type") moved.to = moved.to.clone();
+
+  return moved;
+}
+
+/*
+ * upgrades data the way the game's DataFixerUpper does: fixes run in data version order, each one on every tag of
+ * its type, including the ones nested in the migrated tag. level data is the Data compound of level.dat
+ */
+export class Migrator {
+  private fixes: Fix[] = [];
+  private finders = new Map<DataType, NestedDataFinder[]>();
+
+  register(fix: Fix) {
+    if (!Number.isInteger(fix.version)) throw new Error(`fix '${fix.name}' has an invalid data version ${fix.version}`);
+    this.fixes.push(fix);
+  }
+
+  registerNested(type: DataType, finder: NestedDataFinder) {
+    const finders = this.finders.get(type) ?? [];
+
+    finders.push(finder);
+    this.finders.set(type, finders);
+  }
+
+  // nested tags are only looked for under the tag that holds them
+  private collect(
+    tag: tags.CompoundTag,
+    type: DataType,
+    version: number,
+    path: PathSegment[] | null,
+    results: Target[],
+  ) {
+    results.push([tag, type, path]);
+
+    for (const finder of this.finders.get(type) ?? []) {
+      for (const [nested, nestedType] of finder(tag, version)) {
+        const relative = path && locate(tag, nested);
+        this.collect(nested, nestedType, version, relative && [...path, ...relative], results);
+      }
+    }
+  }
+
+  migrate(tag: tags.Tag, type: DataType, options: MigrateOptions = {}): MigrationReport {
+    if (!(tag instanceof tags.CompoundTag)) throw new Error(`expected a compound but got ${tag.constructor.name}`);
+
+    const stored = tag.get("DataVersion");
+    const from = options.from ?? (stored instanceof tags.IntTag ? stored.getValue() : undefined);
+
+    if (from === undefined) throw new Error("the data has no DataVersion, the version it was written with is needed");
+
+    const to = options.to ?? this.fixes.reduce((newest, fix) => Math.max(newest, fix.version), from);
+    if (to < from) throw new Error(`cannot downgrade data from version ${from} to ${to}`);
+
+    // sort is stable, fixes for the same version run in the order they were registered
+    const fixes = this.fixes
+      .filter((fix) => fix.version > from && fix.version <= to)
+      .sort((a, b) => a.version - b.version);
+    const applied: AppliedFix[] = [];
+
+    for (const fix of fixes) {
+      const found: Target[] = [];
+      this.collect(tag, type, fix.version - 1, [], found);
+
+      // nested targets go first, a fix only changes its own target so the paths of the ones left stay valid
+      const targets = found.filter(([, foundType]) => foundType === fix.type).reverse();
+      if (targets.length === 0) continue;
+
+      // each target is diffed on its own right after the fix ran on it, the rest of the tree is left alone
+      const changes: Patch = [];
+
+      for (const [target, , path] of targets) {
+        const before = target.clone();
+
+        try {
+          fix.apply(target);
+        } catch (error) {
+          throw new MigrationError(fix.name, fix.version, error);
+        }
+
+        if (path) changes.push(...diff(before, target).map((change) => relocate(change, path)));
+      }
+
+      if (changes.length > 0) applied.push({ version: fix.version, type: fix.type, name: fix.name, changes });
+    }
+
+    if (stored) tag.put("DataVersion", new tags.IntTag(to));
+    return { from, to, applied };
+  }
+}
@@ -1,98 +1,237 @@
-import { stringifyByte } from "../util";
+import { HOST_LITTLE_ENDIAN, stringifyByte, stringifyPath, type PathSegment } from "../util";
+import { NBTParseError, ResourceLimitError, type ParseErrorDetails } from "../errors";
 import * as tags from "../tags";
+import { LimitAccounter, LITERAL_SIZES, stringSize, TAG_SIZES, type ParseLimits } from "../limits";
+import type { Compression, CompressionCodec } from "../compression";
+
+export type NBTEncoding = "big-endian" | "little-endian" | "varint";
+
+export interface NBTParseOptions {
+  encoding?: NBTEncoding;
+  // java network format (1.20.2+), the root tag has no name
+  network?: boolean;
+  // detected from the magic bytes by default
+  compression?: Compression | "auto";
+  codec?: CompressionCodec;
+  limits?: ParseLimits;
+}
+
+// the fewest bytes an element of each type takes, for fixed width and varint encodings
+const MIN_ELEMENT_SIZES: Record<number, [number, number]> = {
+  [tags.Tags.TAG_Byte]: [1, 1],
+  [tags.Tags.TAG_Short]: [2, 2],
+  [tags.Tags.TAG_Int]: [4, 1],
+  [tags.Tags.TAG_Long]: [8, 1],
+  [tags.Tags.TAG_Float]: [4, 4],
+  [tags.Tags.TAG_Double]: [8, 8],
+  [tags.Tags.TAG_Byte_Array]: [4, 1],
+  [tags.Tags.TAG_String]: [2, 1],
+  [tags.Tags.TAG_List]: [5, 2],
+  [tags.Tags.TAG_Compound]: [1, 1],
+  [tags.Tags.TAG_Int_Array]: [4, 1],
+  [tags.Tags.TAG_Long_Array]: [4, 1],
+};
 
 export class NBTParser {
   private pos: number = 0;
   private dataView: DataView;
+  private littleEndian: boolean;
+  private varint: boolean;
+  private network: boolean;
+  private path: PathSegment[] = [];
+  private accounter: LimitAccounter;
+
+  constructor(
+    private data: Uint8Array,
+    options: NBTParseOptions = {},
+  ) {
+    this.dataView = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    this.littleEndian = options.encoding === "little-endian" || options.encoding === "varint";
+    this.varint = options.encoding === "varint";
+    this.network = options.network ?? false;
+    this.accounter = new LimitAccounter(options.limits ?? {}, (reason, limit) => {
+      throw new ResourceLimitError(reason, limit, this.pos, `at byte ${this.pos}`, stringifyPath(this.path));
+    });
+  }
 
-  constructor(private data: Uint8Array) {
-    this.dataView = new DataView(data.buffer);
+  private error(reason: string, details?: ParseErrorDetails, offset: number = this.pos): never {
+    throw new NBTParseError(reason, this.data, offset, stringifyPath(this.path), details);
+  }
+
+  private ensureAvailable(bytes: number) {
+    if (this.pos + bytes > this.data.length)
+      this.error("unexpected end of file", {
+        expected: `${bytes} more bytes`,
+        actual: `${this.data.length - this.pos} bytes`,
+      });
   }
 
   private expectByte(value?: number): number {
-    if (this.pos >= this.data.length) throw new Error(`unexpected end of file`);
+    this.ensureAvailable(1);
     if (value !== undefined && value !== this.data[this.pos])
-      throw new Error(`expected byte ${stringifyByte(value)}, found ${stringifyByte(this.data[this.pos])}`);
+      this.error(`expected byte ${stringifyByte(value)}, found ${stringifyByte(this.data[this.pos])}`, {
+        expected: stringifyByte(value),
+        actual: stringifyByte(this.data[this.pos]),
+      });
 
     return this.data[this.pos++];
   }
 
   private readInteger<T extends 2 | 4 | 8>(bytes: T): T extends 8 ? bigint : number {
-    if (this.pos + bytes >= this.data.length) throw new Error("unexpected end of file");
+    this.ensureAvailable(bytes);
     this.pos += bytes;
 
     switch (bytes) {
       case 2:
         // @ts-expect-error
-        return this.dataView.getInt16(this.pos - bytes);
+        return this.dataView.getInt16(this.pos - bytes, this.littleEndian);
       case 4:
         // @ts-expect-error
-        return this.dataView.getInt32(this.pos - bytes);
+        return this.dataView.getInt32(this.pos - bytes, this.littleEndian);
       case 8:
         // @ts-expect-error
-        return this.dataView.getBigInt64(this.pos - bytes);
+        return this.dataView.getBigInt64(this.pos - bytes, this.littleEndian);
     }
   }
 
   private readUnsignedInteger<T extends 2 | 4 | 8>(bytes: T): T extends 8 ? bigint : number {
-    if (this.pos + bytes >= this.data.length) throw new Error("unexpected end of file");
+    this.ensureAvailable(bytes);
     this.pos += bytes;
 
     switch (bytes) {
       case 2:
         // @ts-expect-error
-        return this.dataView.getUint16(this.pos - bytes);
+        return this.dataView.getUint16(this.pos - bytes, this.littleEndian);
       case 4:
         // @ts-expect-error
-        return this.dataView.getUint32(this.pos - bytes);
+        return this.dataView.getUint32(this.pos - bytes, this.littleEndian);
       case 8:
         // @ts-expect-error
-        return this.dataView.getBigUint64(this.pos - bytes);
+        return this.dataView.getBigUint64(this.pos - bytes, this.littleEndian);
     }
   }
 
   private readFLoat(bytes: 4 | 8): number {
-    if (this.pos + bytes >= this.data.length) throw new Error("unexpected end of file");
+    this.ensureAvailable(bytes);
     this.pos += bytes;
 
     switch (bytes) {
       case 4:
-        return this.dataView.getFloat32(this.pos - bytes);
+        return this.dataView.getFloat32(this.pos - bytes, this.littleEndian);
       case 8:
-        return this.dataView.getFloat64(this.pos - bytes);
+        return this.dataView.getFloat64(this.pos - bytes, this.littleEndian);
+    }
+  }
+
+  private readVarInt(): number {
+    let value = 0;
+
+    for (let shift = 0; shift < 35; shift += 7) {
+      const byte = this.expectByte();
+      value |= (byte & 0x7f) << shift;
+
+      if ((byte & 0x80) === 0) return value >>> 0;
     }
+
+    this.error("varint is too long", { expected: "at most 5 bytes" });
+  }
+
+  private readVarLong(): bigint {
+    let value = 0n;
+
+    for (let shift = 0n; shift < 70n; shift += 7n) {
+      const byte = this.expectByte();
+      value |= BigInt(byte & 0x7f) << shift;
+
+      if ((byte & 0x80) === 0) return BigInt.asUintN(64, value);
+    }
+
+    this.error("varlong is too long", { expected: "at most 10 bytes" });
+  }
+
+  private readInt(): number {
+    if (!this.varint) return this.readInteger(4);
+
+    const value = this.readVarInt();
+    return (value >>> 1) ^ -(value & 1);
+  }
+
+  private readLong(): bigint {
+    if (!this.varint) return this.readInteger(8);
+
+    const value = this.readVarLong();
+    return BigInt.asIntN(64, (value >> 1n) ^ -(value & 1n));
+  }
+
+  private readStringLength(): number {
+    if (this.varint) return this.readVarInt();
+    return this.readUnsignedInteger(2);
+  }
+
+  private readArrayLength(elementSize: number): number {
+    const start = this.pos;
+    const length = this.readInt();
+    if (length < 0) this.error(`invalid array length ${length}`, { expected: "a positive length" }, start);
+
+    this.accounter.checkLength(length);
+    this.accounter.account(TAG_SIZES.array + length * elementSize);
+    this.ensureAvailable(this.varint ? length : length * elementSize);
+
+    return length;
+  }
+
+  // arrays stored in host byte order can be viewed in place instead of copied
+  private canViewArray(elementSize: number): boolean {
+    return (
+      !this.varint && this.littleEndian === HOST_LITTLE_ENDIAN && (this.data.byteOffset + this.pos) % elementSize === 0
+    );
   }
 
   private parseByteArray(): tags.ByteArrayTag {
-    const length = this.readInteger(4);
-    if (this.pos + length >= this.data.length) throw new Error("unexpected end of file");
+    const length = this.readArrayLength(1);
     this.pos += length;
 
-    return new tags.ByteArrayTag(Array.from(this.data.slice(this.pos - length, this.pos)));
+    return new tags.ByteArrayTag(new Int8Array(this.data.buffer, this.data.byteOffset + this.pos - length, length));
   }
 
   private parseIntArray(): tags.IntArrayTag {
-    const length = this.readInteger(4);
-    const items: number[] = [];
+    const length = this.readArrayLength(4);
 
-    for (let i = 0; i < length; i++) items.push(this.readInteger(4));
+    if (this.canViewArray(4)) {
+      this.pos += length * 4;
+      return new tags.IntArrayTag(
+        new Int32Array(this.data.buffer, this.data.byteOffset + this.pos - length * 4, length),
+      );
+    }
+
+    const items = new Int32Array(length);
+    for (let i = 0; i < length; i++) items[i] = this.readInt();
 
     return new tags.IntArrayTag(items);
   }
 
   private parseLongArray(): tags.LongArrayTag {
-    const length = this.readInteger(4);
-    const items: bigint[] = [];
+    const length = this.readArrayLength(8);
+
+    if (this.canViewArray(8)) {
+      this.pos += length * 8;
+      return new tags.LongArrayTag(
+        new BigInt64Array(this.data.buffer, this.data.byteOffset + this.pos - length * 8, length),
+      );
+    }
 
-    for (let i = 0; i < length; i++) items.push(this.readInteger(8));
+    const items = new BigInt64Array(length);
+    for (let i = 0; i < length; i++) items[i] = this.readLong();
 
     return new tags.LongArrayTag(items);
   }
 
   private parseString(): tags.StringTag {
-    const length = this.readUnsignedInteger(2);
+    const length = this.readStringLength();
 
-    if (this.pos + length >= this.data.length) throw new Error("unexpected end of file");
+    this.accounter.checkString(length);
+    this.ensureAvailable(length);
+    this.accounter.account(stringSize(length));
     this.pos += length;
 
     return new tags.StringTag(new TextDecoder().decode(this.data.slice(this.pos - length, this.pos)));
@@ -100,48 +239,75 @@ export class NBTParser {
 
   private parseList(): tags.ListTag {
     const tagId = this.expectByte();
-    const length = this.readInteger(4);
+    if (tagId > tags.Tags.TAG_Long_Array)
+      this.error(
+        `cannot parse tag id '${stringifyByte(tagId)}'`,
+        { expected: "a tag id", actual: stringifyByte(tagId) },
+        this.pos - 1,
+      );
+
+    const lengthOffset = this.pos;
+    const length = this.readInt();
     const items: tags.Tag[] = [];
 
-    let isDynamicArray = true;
-
-    for (let i = 0; i < length; i++) {
-      const item = this.parseFromTagType(tagId);
-
-      items.push(item);
-      if (!(item instanceof tags.CompoundTag) || item.list().length !== 1 || item.list()[0] !== "")
-        isDynamicArray = false;
+    if (length > 0 && tagId === tags.Tags.TAG_End)
+      this.error(
+        `list of TAG_End cannot have ${length} elements`,
+        { expected: "a length of 0", actual: `${length}` },
+        lengthOffset,
+      );
+
+    if (length > 0) {
+      this.accounter.checkLength(length);
+      this.accounter.account(TAG_SIZES.list + TAG_SIZES.listElement * length);
+      // a length the rest of the data cannot hold fails here instead of after reading that many elements
+      this.ensureAvailable(length * MIN_ELEMENT_SIZES[tagId][this.varint ? 1 : 0]);
     }
 
-    if (isDynamicArray) {
-      return new tags.ListTag(items.map((it) => (it as tags.CompoundTag).get("")!));
+    this.accounter.enter();
+
+    for (let i = 0; i < length; i++) {
+      this.path.push(i);
+      items.push(this.parseFromTagType(tagId));
+      this.path.pop();
     }
 
-    return new tags.ListTag(items);
+    this.accounter.exit();
+    return new tags.ListTag(items, tagId);
   }
 
   private parseCompound(): tags.CompoundTag {
     const items: Map<string, tags.Tag> = new Map();
 
+    this.accounter.enter();
+    this.accounter.account(TAG_SIZES.compound);
+
     while (true) {
       const tagId = this.expectByte();
       if (tagId === tags.Tags.TAG_End) break;
 
-      const name = this.parseString();
-      const value = this.parseFromTagType(tagId);
+      const nameOffset = this.pos;
+      const name = this.parseString().getValue();
+
+      if (items.has(name)) this.error(`compound already contains tag named '${name}'`, {}, nameOffset);
+      this.accounter.account(TAG_SIZES.compoundEntry);
 
-      if (items.has(name.getValue())) throw new Error(`compound already contains tag named '${name.getValue()}'`);
-      items.set(name.getValue(), value);
+      this.path.push(name);
+      items.set(name, this.parseFromTagType(tagId));
+      this.path.pop();
     }
 
+    this.accounter.exit();
     return new tags.CompoundTag(items);
   }
 
   private parseFromTagType(tagId: number): tags.Tag {
-    if (tagId === tags.Tags.TAG_Byte) return new tags.ByteTag(this.expectByte());
+    if (tagId >= tags.Tags.TAG_Byte && tagId <= tags.Tags.TAG_Double) this.accounter.account(LITERAL_SIZES[tagId]);
+
+    if (tagId === tags.Tags.TAG_Byte) return new tags.ByteTag((this.expectByte() << 24) >> 24);
     if (tagId === tags.Tags.TAG_Short) return new tags.ShortTag(this.readInteger(2));
-    if (tagId === tags.Tags.TAG_Int) return new tags.IntTag(this.readInteger(4));
-    if (tagId === tags.Tags.TAG_Long) return new tags.LongTag(this.readInteger(8));
+    if (tagId === tags.Tags.TAG_Int) return new tags.IntTag(this.readInt());
+    if (tagId === tags.Tags.TAG_Long) return new tags.LongTag(this.readLong());
 
     if (tagId === tags.Tags.TAG_Float) return new tags.FloatTag(this.readFLoat(4));
     if (tagId === tags.Tags.TAG_Double) return new tags.DoubleTag(this.readFLoat(8));
@@ -155,16 +321,19 @@ export class NBTParser {
     if (tagId === tags.Tags.TAG_List) return this.parseList();
     if (tagId === tags.Tags.TAG_Compound) return this.parseCompound();
 
-    throw new Error(`cannot parse tag id '${stringifyByte(tagId)}'`);
+    this.error(`cannot parse tag id '${stringifyByte(tagId)}'`, { expected: "a tag id", actual: stringifyByte(tagId) });
   }
 
-  parse(): tags.Tag {
+  parse(): tags.NamedTag {
     const tagId = this.expectByte();
-    if (tagId === tags.Tags.TAG_End) throw new Error(`invalid root tag '${stringifyByte(tagId)}'`);
-
-    const name = this.parseString();
-    const root = new tags.CompoundTag(new Map([[name.getValue(), this.parseFromTagType(tagId)]]));
-
-    return root;
+    if (tagId === tags.Tags.TAG_End)
+      this.error(
+        `invalid root tag '${stringifyByte(tagId)}'`,
+        { expected: "a tag id", actual: stringifyByte(tagId) },
+        0,
+      );
+
+    const name = this.network ? "" : this.parseString().getValue();
+    return { name, tag: this.parseFromTagType(tagId) };
   }
 }
@@ -1,9 +1,21 @@
 import * as tags from "../tags";
+import { stringifyPath, type PathSegment } from "../util";
+import { ResourceLimitError, SNBTParseError, textPosition, type ParseErrorDetails } from "../errors";
+import { LimitAccounter, shallowTagSize, type ParseLimits } from "../limits";
+
+export type SNBTGrammar = "modern" | "legacy";
+
+export interface SNBTParseOptions {
+  // "legacy" is the grammar used before 1.21.5 and the default, "modern" the 1.21.5+ one
+  grammar?: SNBTGrammar;
+  // looks up the character for a \N{name} escape, a handful of common names are built in
+  resolveCharacterName?: (name: string) => string | undefined;
+  limits?: ParseLimits;
+}
 
 enum TokenKind {
   EOF = "EOF",
   NUMBER = "NUMBER",
-  SUFFIX = "SUFFIX",
   STRING = "STRING",
   BOOLEAN = "BOOLEAN",
   DELIMITER = "DELIMITER",
@@ -13,34 +25,25 @@ class Token {
   constructor(
     public kind: TokenKind,
     public value: string,
+    public start: number,
+    public quoted: boolean = false,
   ) {}
 }
 
+type ErrorReporter = (reason: string, details: ParseErrorDetails, offset: number) => never;
+
 const CONSTANT_TOKENS = {
   ["{".charCodeAt(0)]: TokenKind.DELIMITER,
   ["}".charCodeAt(0)]: TokenKind.DELIMITER,
   ["[".charCodeAt(0)]: TokenKind.DELIMITER,
   ["]".charCodeAt(0)]: TokenKind.DELIMITER,
+  ["(".charCodeAt(0)]: TokenKind.DELIMITER,
+  [")".charCodeAt(0)]: TokenKind.DELIMITER,
   [":".charCodeAt(0)]: TokenKind.DELIMITER,
   [",".charCodeAt(0)]: TokenKind.DELIMITER,
   [";".charCodeAt(0)]: TokenKind.DELIMITER,
 };
 
-const NUMBER_SUFFIXES = [
-  "b".charCodeAt(0),
-  "B".charCodeAt(0),
-  "s".charCodeAt(0),
-  "S".charCodeAt(0),
-  "i".charCodeAt(0),
-  "I".charCodeAt(0),
-  "l".charCodeAt(0),
-  "L".charCodeAt(0),
-  "f".charCodeAt(0),
-  "F".charCodeAt(0),
-  "d".charCodeAt(0),
-  "d".charCodeAt(0),
-];
-
 const SKIP_CHARS = [" ".charCodeAt(0), "\t".charCodeAt(0), "\n".charCodeAt(0), "\r".charCodeAt(0)];
 
 const NUMBER_SIGN_PLUS = "+".charCodeAt(0);
@@ -57,91 +60,202 @@ const UPPERCASE_END = "Z".charCodeAt(0);
 
 const IDENTIFIER_OTHER = ["_".charCodeAt(0), "-".charCodeAt(0), ".".charCodeAt(0), "+".charCodeAt(0)];
 
-function isIdentifierChar(charCode: number) {
+const FLOAT_SEPARATOR = ".".charCodeAt(0);
+
+function isDigit(charCode: number) {
+  return charCode >= NUMBERS_START && charCode <= NUMBERS_END;
+}
+
+function isLetter(charCode: number) {
   return (
     (charCode >= LOWERCASE_START && charCode <= LOWERCASE_END) ||
-    (charCode >= UPPERCASE_START && charCode <= UPPERCASE_END) ||
-    IDENTIFIER_OTHER.includes(charCode)
+    (charCode >= UPPERCASE_START && charCode <= UPPERCASE_END)
   );
 }
 
-const FLOAT_SEPARATOR = ".".charCodeAt(0);
+function isIdentifierChar(charCode: number) {
+  return isLetter(charCode) || IDENTIFIER_OTHER.includes(charCode);
+}
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  '"': '"',
+  "'": "'",
+  "\\": "\\",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  s: " ",
+  t: "\t",
+};
+
+const UNICODE_ESCAPE_LENGTHS: Record<string, number> = { x: 2, u: 4, U: 8 };
+
+const CHARACTER_NAMES: Record<string, string> = {
+  SPACE: " ",
+  "NO-BREAK SPACE": " ",
+  "SECTION SIGN": "§",
+  "PILCROW SIGN": "¶",
+  "COPYRIGHT SIGN": "©",
+  "REGISTERED SIGN": "®",
+  "DEGREE SIGN": "°",
+  BULLET: "•",
+  "HORIZONTAL ELLIPSIS": "…",
+  "ZERO WIDTH SPACE": "​",
+};
+
+const MODERN_INTEGER_RE =
+  /^([+-]?)(?:0[xX]([0-9a-fA-F](?:[0-9a-fA-F_]*[0-9a-fA-F])?)|0[bB]([01](?:[01_]*[01])?)|(\d(?:[\d_]*\d)?))(?:([sSuU]?)([bBsSiIlL]))?$/;
+const MODERN_FLOAT_RE =
+  /^[+-]?(?:\d(?:[\d_]*\d)?(?:\.(?:\d(?:[\d_]*\d)?)?)?|\.\d(?:[\d_]*\d)?)(?:[eE][+-]?\d(?:[\d_]*\d)?)?([fFdD]?)$/;
+const SPECIAL_FLOAT_RE = /^([+-]?)(NaN|Infinity)([fFdD]?)$/;
+const LEGACY_NUMBER_RE = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?([bBsSiIlLfFdD]?)$/;
+
+const UUID_RE = /^[0-9a-fA-F]{1,8}-[0-9a-fA-F]{1,4}-[0-9a-fA-F]{1,4}-[0-9a-fA-F]{1,4}-[0-9a-fA-F]{1,12}$/;
+
+type IntegerType = "b" | "s" | "i" | "l";
+
+const INTEGER_BITS: Record<IntegerType, bigint> = { b: 8n, s: 16n, i: 32n, l: 64n };
+const INTEGER_NAMES: Record<IntegerType, string> = { b: "byte", s: "short", i: "int", l: "long" };
+
+type NumberLiteral = { type: IntegerType; value: bigint } | { type: "f" | "d"; value: number };
 
 class Lexer {
-  private pos: number = 0;
-  private lastNumber: number = -777;
+  constructor(
+    private source: string,
+    private modern: boolean,
+    private resolveCharacterName: (name: string) => string | undefined,
+    private error: ErrorReporter,
+    private pos: number,
+  ) {}
 
-  constructor(private source: string) {}
+  // raw text up to the next `end` character, used for arguments the tokenizer cannot represent
+  readUntil(end: string): string {
+    const close = this.source.indexOf(end, this.pos);
+    if (close === -1) this.error("unexpected end of file", { expected: `'${end}'`, actual: "end of file" }, this.pos);
 
-  next(): Token {
-    if (this.pos >= this.source.length) return new Token(TokenKind.EOF, "");
+    const text = this.source.slice(this.pos, close);
+    this.pos = close;
 
-    const charCode = this.source.charCodeAt(this.pos);
+    return text;
+  }
+
+  private startsNumber(charCode: number): boolean {
+    if (isDigit(charCode) || charCode === NUMBER_SIGN_PLUS || charCode === NUMBER_SIGN_MINUS) return true;
+    return charCode === FLOAT_SEPARATOR && isDigit(this.source.charCodeAt(this.pos + 1));
+  }
+
+  // reads everything that could belong to a number, the parser decides whether it is a valid one
+  private readNumber(): Token {
+    const start = this.pos++;
+
+    while (this.pos < this.source.length) {
+      const charCode = this.source.charCodeAt(this.pos);
+      if (!isDigit(charCode) && !isIdentifierChar(charCode)) break;
 
-    if (SKIP_CHARS.includes(charCode)) {
       this.pos++;
-      return this.next();
     }
 
-    if (CONSTANT_TOKENS[charCode]) {
-      return new Token(CONSTANT_TOKENS[charCode], this.source[this.pos++]);
+    return new Token(TokenKind.NUMBER, this.source.substring(start, this.pos), start);
+  }
+
+  private readUnicodeEscape(kind: string): string {
+    const length = UNICODE_ESCAPE_LENGTHS[kind];
+    const digits = this.source.slice(this.pos + 2, this.pos + 2 + length);
+
+    if (!new RegExp(`^[0-9a-fA-F]{${length}}$`).test(digits))
+      this.error(`invalid \\${kind} escape`, { expected: `${length} hex digits`, actual: digits }, this.pos);
+
+    const codePoint = parseInt(digits, 16);
+    if (codePoint > 0x10ffff) this.error(`invalid code point '${digits}'`, { actual: digits }, this.pos);
+
+    this.pos += 2 + length;
+    return String.fromCodePoint(codePoint);
+  }
+
+  private readNamedEscape(): string {
+    if (this.source[this.pos + 2] !== "{")
+      this.error("invalid \\N escape", { expected: "'{'", actual: this.source[this.pos + 2] }, this.pos);
+
+    const close = this.source.indexOf("}", this.pos + 3);
+    if (close === -1) this.error("unexpected end of file", { expected: "'}'", actual: "end of file" }, this.pos);
+
+    const name = this.source.slice(this.pos + 3, close);
+    const character = this.resolveCharacterName(name) ?? CHARACTER_NAMES[name.toUpperCase()];
+
+    if (character === undefined) this.error(`unknown character name '${name}'`, { actual: name }, this.pos);
+
+    this.pos = close + 1;
+    return character;
+  }
+
+  private readEscape(): string | null {
+    const kind = this.source[this.pos + 1];
+
+    if (!this.modern) {
+      // the legacy grammar only knows quote and backslash escapes and keeps anything else as written
+      if (kind !== '"' && kind !== "'" && kind !== "\\") return null;
+
+      this.pos += 2;
+      return kind;
     }
 
-    if (this.lastNumber === this.pos - 1 && NUMBER_SUFFIXES.includes(charCode)) {
-      return new Token(TokenKind.SUFFIX, this.source[this.pos++]);
+    if (kind in SIMPLE_ESCAPES) {
+      this.pos += 2;
+      return SIMPLE_ESCAPES[kind];
     }
 
-    if (
-      charCode === NUMBER_SIGN_PLUS ||
-      charCode === NUMBER_SIGN_MINUS ||
-      (charCode >= NUMBERS_START && charCode <= NUMBERS_END)
-    ) {
-      let content = this.source[this.pos++];
-      let isFloat = false;
+    if (kind in UNICODE_ESCAPE_LENGTHS) return this.readUnicodeEscape(kind);
+    if (kind === "N") return this.readNamedEscape();
 
-      while (
-        (this.source.charCodeAt(this.pos) >= NUMBERS_START && this.source.charCodeAt(this.pos) <= NUMBERS_END) ||
-        (!isFloat && this.source.charCodeAt(this.pos) === FLOAT_SEPARATOR)
-      ) {
-        if (this.source.charCodeAt(this.pos) === FLOAT_SEPARATOR) {
-          isFloat = true;
-        }
+    this.error(`invalid escape sequence '\\${kind}'`, { actual: `\\${kind}` }, this.pos);
+  }
 
-        content += this.source[this.pos++];
-      }
+  next(): Token {
+    while (SKIP_CHARS.includes(this.source.charCodeAt(this.pos))) this.pos++;
+    if (this.pos >= this.source.length) return new Token(TokenKind.EOF, "", this.pos);
+
+    const charCode = this.source.charCodeAt(this.pos);
 
-      this.lastNumber = this.pos - 1;
-      return new Token(TokenKind.NUMBER, content);
+    if (CONSTANT_TOKENS[charCode]) {
+      return new Token(CONSTANT_TOKENS[charCode], this.source[this.pos++], this.pos - 1);
     }
 
+    if (this.startsNumber(charCode)) return this.readNumber();
+
     if (isIdentifierChar(charCode)) {
       const start = this.pos;
 
-      while (isIdentifierChar(this.source.charCodeAt(this.pos))) {
+      while (
+        isIdentifierChar(this.source.charCodeAt(this.pos)) ||
+        (this.source.charCodeAt(this.pos) >= NUMBERS_START && this.source.charCodeAt(this.pos) <= NUMBERS_END)
+      ) {
         this.pos++;
       }
 
       const value = this.source.substring(start, this.pos);
 
-      return new Token(value === "true" || value === "false" ? TokenKind.BOOLEAN : TokenKind.STRING, value);
+      return new Token(value === "true" || value === "false" ? TokenKind.BOOLEAN : TokenKind.STRING, value, start);
     }
 
     if (this.source[this.pos] === '"' || this.source[this.pos] === "'") {
+      const start = this.pos;
       const opener = this.source[this.pos++];
       let content = "";
 
-      charLoop: while (true) {
-        if (this.pos >= this.source.length) throw new Error("unexpected end of file");
+      while (true) {
+        if (this.pos >= this.source.length)
+          this.error("unexpected end of file", { expected: `closing ${opener}`, actual: "end of file" }, this.pos);
 
         if (this.source[this.pos] === "\\") {
-          if (this.pos + 1 >= this.source.length) throw new Error("unexepected end of file");
-
-          switch (this.source[this.pos + 1]) {
-            case '"':
-            case "'":
-              content += opener;
-              this.pos += 2;
-              continue charLoop;
+          if (this.pos + 1 >= this.source.length)
+            this.error("unexpected end of file", { expected: "an escape sequence", actual: "end of file" }, this.pos);
+
+          const escaped = this.readEscape();
+
+          if (escaped !== null) {
+            content += escaped;
+            continue;
           }
         }
 
@@ -152,31 +266,59 @@ class Lexer {
 
       this.pos++;
 
-      return new Token(TokenKind.STRING, content);
+      return new Token(TokenKind.STRING, content, start, true);
     }
 
-    throw new Error(`unexpected character '${this.source[this.pos]}'`);
+    this.error(`unexpected character '${this.source[this.pos]}'`, { actual: this.source[this.pos] }, this.pos);
   }
 }
 
 export class SNBTParser {
   private lexer: Lexer;
   private current: Token;
+  private path: PathSegment[] = [];
+  private modern: boolean;
+  private accounter: LimitAccounter;
 
-  constructor(private source: string) {
-    this.lexer = new Lexer(this.source);
+  // offset is where the value starts in source, for values embedded in other text
+  constructor(
+    private source: string,
+    options: SNBTParseOptions = {},
+    offset: number = 0,
+  ) {
+    this.modern = options.grammar === "modern";
+    this.lexer = new Lexer(
+      this.source,
+      this.modern,
+      options.resolveCharacterName ?? (() => undefined),
+      (reason, details, offset) => this.error(reason, details, offset),
+      offset,
+    );
+    this.accounter = new LimitAccounter(options.limits ?? {}, (reason, limit) => {
+      const { line, column } = textPosition(this.source, this.current.start);
+      throw new ResourceLimitError(reason, limit, this.current.start, `at ${line}:${column}`, stringifyPath(this.path));
+    });
     this.current = this.lexer.next();
   }
 
+  private error(reason: string, details: ParseErrorDetails = {}, offset: number = this.current.start): never {
+    throw new SNBTParseError(reason, this.source, offset, stringifyPath(this.path), details);
+  }
+
+  private describeCurrent(): string {
+    return this.current.kind === TokenKind.EOF ? "end of file" : `'${this.current.value}'`;
+  }
+
   private matches(kind: TokenKind, value?: string): boolean {
     return this.current.kind === kind && (!value || this.current.value === value);
   }
 
   private eat(kind: TokenKind, value?: string): Token {
     if (!this.matches(kind, value))
-      throw new Error(
-        `expected token '${kind}'${value ? ` with value '${value}'` : ""} but got '${this.current.value}'`,
-      );
+      this.error(`expected ${value ? `'${value}'` : kind.toLowerCase()} but got ${this.describeCurrent()}`, {
+        expected: value ?? kind,
+        actual: this.current.value,
+      });
 
     const curr = this.current;
     this.current = this.lexer.next();
@@ -184,22 +326,32 @@ export class SNBTParser {
     return curr;
   }
 
+  private eatKey(): Token {
+    // unquoted keys may look like numbers, e.g. {0: a}
+    if (this.matches(TokenKind.NUMBER) || this.matches(TokenKind.BOOLEAN)) return this.eat(this.current.kind);
+    return this.eat(TokenKind.STRING);
+  }
+
   private parseCompound(): tags.CompoundTag {
     const items: Map<string, tags.Tag> = new Map();
     let first = true;
 
+    this.accounter.enter();
     this.eat(TokenKind.DELIMITER, "{");
     while (!this.matches(TokenKind.DELIMITER, "}")) {
       if (!first) this.eat(TokenKind.DELIMITER, ",");
       first = false;
 
-      const key = this.eat(TokenKind.STRING);
-      this.eat(TokenKind.DELIMITER, ":");
-      const value = this.parseItem();
+      this.accounter.checkString(this.current.value.length);
+      const key = this.eatKey();
 
-      items.set(key.value, value);
+      this.path.push(key.value);
+      this.eat(TokenKind.DELIMITER, ":");
+      items.set(key.value, this.parseItem());
+      this.path.pop();
     }
     this.eat(TokenKind.DELIMITER, "}");
+    this.accounter.exit();
 
     return new tags.CompoundTag(items);
   }
@@ -210,10 +362,12 @@ export class SNBTParser {
     let first = true;
     let arrayType: "B" | "I" | "L" | null = null;
 
+    this.accounter.enter();
     this.eat(TokenKind.DELIMITER, "[");
 
     if (
       this.current.kind === TokenKind.STRING &&
+      !this.current.quoted &&
       (this.current.value === "B" || this.current.value === "I" || this.current.value === "L")
     ) {
       arrayType = this.eat(TokenKind.STRING).value as unknown as "B" | "I" | "L";
@@ -224,96 +378,203 @@ export class SNBTParser {
       if (!first) this.eat(TokenKind.DELIMITER, ",");
       first = false;
 
+      // trailing commas are allowed
+      if (this.modern && this.matches(TokenKind.DELIMITER, "]")) break;
+
+      this.accounter.checkLength(items.length + 1);
+      this.path.push(items.length);
+
       if (arrayType === "B") {
-        items.push(Number(this.eatNumberSuffixes("int", "b", "B")));
+        items.push(Number(this.eatArrayElement("b")));
       } else if (arrayType === "I") {
-        items.push(Number(this.eatNumberSuffixes("int", "b", "B", "s", "S", "i", "I")));
+        items.push(Number(this.eatArrayElement("b", "s", "i")));
       } else if (arrayType === "L") {
-        items.push(BigInt(this.eatNumberSuffixes("int", "b", "B", "s", "S", "i", "I", "l", "L")));
+        items.push(this.eatArrayElement("b", "s", "i", "l"));
       } else {
-        items.push(this.parseItem());
+        const start = this.current.start;
+        const item = this.parseItem();
+
+        if (!this.modern && items.length > 0 && (items[0] as tags.Tag).getId() !== item.getId())
+          this.error("list elements must all have the same type", {}, start);
+
+        items.push(item);
       }
+
+      this.path.pop();
     }
     this.eat(TokenKind.DELIMITER, "]");
+    this.accounter.exit();
 
     if (arrayType === "B") return new tags.ByteArrayTag(items as number[]);
     if (arrayType === "I") return new tags.IntArrayTag(items as number[]);
     if (arrayType === "L") return new tags.LongArrayTag(items as bigint[]);
 
-    return new tags.ListTag(items as tags.Tag[]);
+    const list = items as tags.Tag[];
+    if (list.every((item) => item.getId() === list[0].getId())) return new tags.ListTag(list);
+
+    // mixed lists are stored the way the game does, every element becomes a compound
+    return new tags.ListTag(list.map(wrapListElement));
   }
 
-  private eatNumberSuffixes(kind: "int" | "float", ...suffixes: string[]): string {
+  private eatArrayElement(...types: IntegerType[]): bigint {
     if (this.matches(TokenKind.BOOLEAN)) {
-      if (!suffixes.includes("b") && !suffixes.includes("B")) throw new Error("unexpected boolean");
-      if (kind === "float") throw new Error("true|false cannot be used as floating point values");
-
-      return this.eat(TokenKind.BOOLEAN).value === "true" ? "1" : "0";
+      if (!types.includes("b")) this.error("unexpected boolean", { expected: "a number", actual: this.current.value });
+      return this.eat(TokenKind.BOOLEAN).value === "true" ? 1n : 0n;
     }
 
     const number = this.eat(TokenKind.NUMBER);
-    let suffix: string;
+    const literal = this.readNumber(number);
 
-    if (kind === "int" && number.value.includes(".")) throw new Error("expected a whole number");
-    if (kind === "float" && !number.value.includes(".")) throw new Error("expected a floating point number");
+    if (!literal) this.error(`invalid number '${number.value}'`, { actual: number.value }, number.start);
+    if (typeof literal.value !== "bigint")
+      this.error("expected a whole number", { expected: "a whole number", actual: number.value }, number.start);
 
-    if (!this.matches(TokenKind.SUFFIX)) {
-      if (number.value.includes(".")) suffix = "f";
-      else suffix = "i";
-    } else {
-      suffix = this.eat(TokenKind.SUFFIX).value;
-    }
+    if (!types.includes(literal.type as IntegerType))
+      this.error(
+        `expected a number with the suffix ${types.map((type) => `'${type}'`).join(", ")} but got '${literal.type}'`,
+        { expected: types.join(", "), actual: literal.type },
+        number.start,
+      );
+
+    return literal.value;
+  }
+
+  private readModernInteger(token: Token, match: RegExpMatchArray): NumberLiteral {
+    const [, sign, hex, binary, decimal, signedness, suffix] = match;
+
+    const type = (suffix?.toLowerCase() ?? "i") as IntegerType;
+    const unsigned = signedness?.toLowerCase() === "u";
+    const bits = INTEGER_BITS[type];
+
+    let value: bigint;
+    if (hex !== undefined) value = BigInt(`0x${hex.replaceAll("_", "")}`);
+    else if (binary !== undefined) value = BigInt(`0b${binary.replaceAll("_", "")}`);
+    else value = BigInt(decimal.replaceAll("_", ""));
+
+    if (sign === "-") value = -value;
+
+    const min = unsigned ? 0n : -(1n << (bits - 1n));
+    const max = unsigned ? (1n << bits) - 1n : (1n << (bits - 1n)) - 1n;
 
-    if (!suffixes.includes(suffix))
-      throw new Error(
-        `expected a number with the suffix ${suffixes.map((suff) => `'${suff}'`).join(", ")} but got '${suffix}'`,
+    if (value < min || value > max)
+      this.error(
+        `${token.value} is out of range for ${unsigned ? "an unsigned" : "a"} ${INTEGER_NAMES[type]}`,
+        { expected: `a number between ${min} and ${max}`, actual: token.value },
+        token.start,
       );
 
-    return number.value;
+    return { type, value: BigInt.asIntN(Number(bits), value) };
+  }
+
+  private readNumber(token: Token): NumberLiteral | null {
+    const text = token.value;
+
+    // both grammars read NaN and Infinity with a suffix, the way FloatTag and DoubleTag write them
+    const special = text.match(SPECIAL_FLOAT_RE);
+    if (special && (this.modern || special[3]))
+      return { type: special[3].toLowerCase() === "f" ? "f" : "d", value: Number(special[1] + special[2]) };
+
+    if (!this.modern) {
+      const match = text.match(LEGACY_NUMBER_RE);
+      if (!match) return null;
+
+      const suffix = match[1].toLowerCase();
+      if (suffix === "f" || suffix === "d") return { type: suffix, value: Number(text.slice(0, -1)) };
+      // an exponent alone doesn't make a decimal, only a float suffix or a dot does
+      if (suffix === "" && text.includes(".")) return { type: "f", value: Number(text) };
+      if (/[.eE]/.test(text)) return null;
+      if (suffix === "") return { type: "i", value: BigInt(text) };
+
+      return { type: suffix as IntegerType, value: BigInt(text.slice(0, -1)) };
+    }
+
+    const integer = text.match(MODERN_INTEGER_RE);
+    if (integer) return this.readModernInteger(token, integer);
+
+    const float = text.match(MODERN_FLOAT_RE);
+    if (!float) return null;
+
+    const suffix = float[float.length - 1].toLowerCase();
+    const body = (suffix ? text.slice(0, -1) : text).replaceAll("_", "");
+
+    return { type: suffix === "f" ? "f" : "d", value: Number(body) };
   }
 
   private parseNumber(): tags.Tag {
     const number = this.eat(TokenKind.NUMBER);
-    const value = Number(number.value);
+    const literal = this.readNumber(number);
 
-    if (!this.matches(TokenKind.SUFFIX)) {
-      if (number.value.includes(".")) return new tags.FloatTag(value);
-      return new tags.IntTag(value);
+    if (!literal) {
+      // the legacy grammar reads anything that isn't a valid number as a string
+      if (!this.modern) return new tags.StringTag(number.value);
+      this.error(`invalid number '${number.value}'`, { actual: number.value }, number.start);
     }
 
-    const suffix = this.eat(TokenKind.SUFFIX);
+    return this.numberToTag(literal);
+  }
 
-    switch (suffix.value) {
+  private numberToTag(literal: NumberLiteral): tags.Tag {
+    switch (literal.type) {
       case "b":
-      case "B":
-        return new tags.ByteTag(value);
-
+        return new tags.ByteTag(Number(literal.value));
       case "s":
-      case "S":
-        return new tags.ShortTag(value);
-
+        return new tags.ShortTag(Number(literal.value));
       case "i":
-      case "I":
-        return new tags.IntTag(value);
-
+        return new tags.IntTag(Number(literal.value));
       case "l":
-      case "L":
-        return new tags.LongTag(BigInt(number.value));
-
+        return new tags.LongTag(literal.value);
       case "f":
-      case "F":
-        return new tags.FloatTag(value);
-
+        return new tags.FloatTag(literal.value);
       case "d":
-      case "D":
-        return new tags.DoubleTag(value);
+        return new tags.DoubleTag(literal.value);
+    }
+  }
+
+  private parseOperation(name: Token): tags.Tag {
+    this.path.push(`${name.value}()`);
+
+    let result: tags.Tag;
+
+    if (name.value === "uuid") {
+      const argument = this.lexer
+        .readUntil(")")
+        .trim()
+        .replace(/^(["'])(.*)\1$/, "$2");
+      this.current = this.lexer.next();
+
+      if (!UUID_RE.test(argument))
+        this.error(`invalid uuid '${argument}'`, { expected: "a uuid", actual: argument }, name.start);
+
+      result = new tags.IntArrayTag(uuidToInts(argument));
+    } else if (name.value === "bool") {
+      this.eat(TokenKind.DELIMITER, "(");
+      const argument = this.parseItem();
+
+      if (!(argument instanceof tags.LiteralTag) || typeof argument.getValue() === "string")
+        this.error("bool() expects a number or a boolean", { expected: "a number", actual: argument.stringify() });
+
+      result = new tags.ByteTag(argument.getValue() != 0 ? 1 : 0);
+    } else {
+      this.error(`unknown operation '${name.value}'`, { expected: "bool or uuid", actual: name.value }, name.start);
     }
 
-    throw new Error(`invalid suffix '${suffix.value}'`);
+    this.eat(TokenKind.DELIMITER, ")");
+    this.path.pop();
+
+    return result;
   }
 
   private parseString(): tags.Tag {
-    return new tags.StringTag(this.eat(TokenKind.STRING).value);
+    this.accounter.checkString(this.current.value.length);
+    const string = this.eat(TokenKind.STRING);
+
+    if (!string.quoted) {
+      if (this.modern && this.matches(TokenKind.DELIMITER, "(")) return this.parseOperation(string);
+      const special = SPECIAL_FLOAT_RE.test(string.value) ? this.readNumber(string) : null;
+      if (special) return this.numberToTag(special);
+    }
+
+    return new tags.StringTag(string.value);
   }
 
   private parseBoolean(): tags.Tag {
@@ -321,16 +582,49 @@ export class SNBTParser {
   }
 
   private parseItem(): tags.Tag {
+    const item = this.parseValue();
+
+    // the source is already in memory, tags are charged once they are parsed
+    this.accounter.account(shallowTagSize(item));
+    return item;
+  }
+
+  private parseValue(): tags.Tag {
     if (this.matches(TokenKind.NUMBER)) return this.parseNumber();
     if (this.matches(TokenKind.STRING)) return this.parseString();
     if (this.matches(TokenKind.BOOLEAN)) return this.parseBoolean();
     if (this.matches(TokenKind.DELIMITER, "[")) return this.parseList();
     if (this.matches(TokenKind.DELIMITER, "{")) return this.parseCompound();
 
-    throw new Error(`expected {, [, a number, an identifier, or a boolean, but got '${this.current.value}'`);
+    this.error(`expected {, [, a number, an identifier, or a boolean, but got ${this.describeCurrent()}`, {
+      expected: "a value",
+      actual: this.current.value,
+    });
   }
 
   parse(): tags.Tag {
-    return this.parseItem();
+    const item = this.parseItem();
+    if (!this.matches(TokenKind.EOF))
+      this.error(`unexpected ${this.describeCurrent()} after the end of the value`, {
+        expected: "end of file",
+        actual: this.current.value,
+      });
+
+    return item;
   }
 }
+
+// compounds are kept unless they could be mistaken for a wrapper themselves
+function wrapListElement(tag: tags.Tag): tags.CompoundTag {
+  if (tag instanceof tags.CompoundTag && (tag.list().length !== 1 || tag.list()[0] !== "")) return tag;
+  return new tags.CompoundTag({ "": tag });
+}
+
+function uuidToInts(uuid: string): number[] {
+  const [a, b, c, d, e] = uuid.split("-").map((part) => BigInt(`0x${part}`));
+
+  const most = BigInt.asUintN(64, (a << 32n) | (b << 16n) | c);
+  const least = BigInt.asUintN(64, (d << 48n) | e);
+
+  return [most >> 32n, most, least >> 32n, least].map((part) => Number(BigInt.asIntN(32, part)));
+}
@@ -0,0 +1,605 @@
+import { stringifyByte } from "../util";
+import * as tags from "../tags";
+import { NBTParseError, ResourceLimitError, type ParseErrorDetails } from "../errors";
+import { LimitAccounter, LITERAL_SIZES, stringSize, TAG_SIZES, type ParseLimits } from "../limits";
+import { detectCompression, type Compression, type CompressionFormat } from "../compression";
+import type { NBTEncoding } from "./nbt";
+
+export type NBTStreamSource = Uint8Array | AsyncIterable<Uint8Array> | ReadableStream<Uint8Array>;
+
+export interface NBTStreamOptions {
+  encoding?: NBTEncoding;
+  // java network format (1.20.2+), the root tag has no name
+  network?: boolean;
+  // detected from the first bytes by default, compressed input needs DecompressionStream
+  compression?: Compression | "auto";
+  // checked as the events are read, skipped values only count towards the depth
+  limits?: ParseLimits;
+}
+
+export type NBTEvent =
+  | { type: "enter-compound" }
+  | { type: "enter-list"; elementType: tags.Tags; length: number }
+  | { type: "key"; name: string; tagId: tags.Tags }
+  | { type: "value"; tag: tags.LiteralTag<number | bigint | string> }
+  | { type: "array"; tag: tags.ByteArrayTag | tags.IntArrayTag | tags.LongArrayTag }
+  | { type: "exit" };
+
+type Frame = { kind: "compound" } | { kind: "list"; elementType: number; remaining: number };
+
+const FIXED_SIZES: Partial<Record<number, number>> = {
+  [tags.Tags.TAG_Byte]: 1,
+  [tags.Tags.TAG_Short]: 2,
+  [tags.Tags.TAG_Float]: 4,
+  [tags.Tags.TAG_Double]: 8,
+};
+
+const EMPTY = new Uint8Array(0);
+
+// the stream doesn't keep what it has read, so its errors come without a snippet
+function parseError(reason: string, offset: number, details?: ParseErrorDetails): never {
+  throw new NBTParseError(reason, EMPTY, offset, "", details);
+}
+
+async function* readStream(stream: ReadableStream<Uint8Array>): AsyncIterable<Uint8Array> {
+  const reader = stream.getReader();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+class ByteSource {
+  // unread chunks, reading continues at pos in the first one. none of them are empty
+  private chunks: Uint8Array[] = [];
+  private pos: number = 0;
+  private available: number = 0;
+  private iterator: AsyncIterator<Uint8Array> | null;
+  // bytes read so far, after decompression
+  offset: number = 0;
+
+  constructor(source: NBTStreamSource) {
+    if (source instanceof Uint8Array) {
+      if (source.length > 0) this.chunks.push(source);
+      this.available = source.length;
+      this.iterator = null;
+    } else if (Symbol.asyncIterator in source) {
+      this.iterator = source[Symbol.asyncIterator]();
+    } else {
+      this.iterator = readStream(source)[Symbol.asyncIterator]();
+    }
+  }
+
+  private async pull(): Promise<boolean> {
+    if (!this.iterator) return false;
+
+    const { done, value } = await this.iterator.next();
+    if (done) {
+      this.iterator = null;
+      return false;
+    }
+
+    if (value.length > 0) this.chunks.push(value);
+    this.available += value.length;
+
+    return true;
+  }
+
+  // moves forward in the first chunk
+  private advance(bytes: number) {
+    this.pos += bytes;
+    this.available -= bytes;
+    this.offset += bytes;
+
+    if (this.pos === this.chunks[0].length) {
+      this.chunks.shift();
+      this.pos = 0;
+    }
+  }
+
+  async read(bytes: number): Promise<Uint8Array> {
+    if (bytes === 0) return EMPTY;
+
+    while (this.available < bytes) {
+      if (!(await this.pull()))
+        parseError("unexpected end of file", this.offset, {
+          expected: `${bytes} more bytes`,
+          actual: `${this.available} bytes`,
+        });
+    }
+
+    const first = this.chunks[0];
+    if (first.length - this.pos >= bytes) {
+      const data = first.subarray(this.pos, this.pos + bytes);
+      this.advance(bytes);
+
+      return data;
+    }
+
+    // the value spans several chunks, they are joined once all of it has arrived
+    const output = new Uint8Array(bytes);
+
+    for (let offset = 0; offset < bytes;) {
+      const chunk = this.chunks[0];
+      const length = Math.min(chunk.length - this.pos, bytes - offset);
+
+      output.set(chunk.subarray(this.pos, this.pos + length), offset);
+      offset += length;
+      this.advance(length);
+    }
+
+    return output;
+  }
+
+  async readByte(): Promise<number> {
+    if (this.chunks.length === 0) return (await this.read(1))[0];
+
+    const byte = this.chunks[0][this.pos];
+    this.advance(1);
+
+    return byte;
+  }
+
+  async skip(bytes: number): Promise<void> {
+    while (bytes > 0) {
+      if (this.chunks.length === 0) {
+        if (!(await this.pull()))
+          parseError("unexpected end of file", this.offset, { expected: `${bytes} more bytes`, actual: "0 bytes" });
+        continue;
+      }
+
+      const length = Math.min(this.chunks[0].length - this.pos, bytes);
+      this.advance(length);
+      bytes -= length;
+    }
+  }
+
+  // the first bytes without consuming them, fewer when the input is shorter
+  private async peek(bytes: number): Promise<Uint8Array> {
+    while (this.available < bytes && (await this.pull()));
+
+    const data = new Uint8Array(Math.min(bytes, this.available));
+    for (let i = 0, chunk = 0, pos = this.pos; i < data.length; i++, pos++) {
+      if (pos === this.chunks[chunk].length) [chunk, pos] = [chunk + 1, 0];
+      data[i] = this.chunks[chunk][pos];
+    }
+
+    return data;
+  }
+
+  // reads the rest of the input through a DecompressionStream
+  async decompress(compression: Compression | "auto"): Promise<void> {
+    if (compression === "auto") compression = detectCompression(await this.peek(2));
+    if (compression === "none") return;
+
+    if (typeof DecompressionStream === "undefined")
+      parseError(`${compression} compressed data needs DecompressionStream to be read as a stream`, this.offset);
+
+    const format: CompressionFormat = compression;
+    const chunks = this.chunks.map((chunk, i) => (i === 0 ? chunk.subarray(this.pos) : chunk));
+    const iterator = this.iterator;
+
+    const input = new ReadableStream<Uint8Array<ArrayBuffer>>({
+      async pull(controller) {
+        const chunk = chunks.shift() ?? (iterator && (await iterator.next()));
+        if (chunk instanceof Uint8Array) return controller.enqueue(chunk as Uint8Array<ArrayBuffer>);
+
+        if (!chunk || chunk.done) controller.close();
+        else controller.enqueue(chunk.value as Uint8Array<ArrayBuffer>);
+      },
+      async cancel() {
+        await iterator?.return?.();
+      },
+    });
+
+    const reader = input.pipeThrough(new DecompressionStream(format === "gzip" ? "gzip" : "deflate")).getReader();
+
+    this.chunks = [];
+    this.pos = 0;
+    this.available = 0;
+    this.iterator = {
+      next: () =>
+        reader.read().then(
+          (result) => (result.done ? { done: true, value: undefined } : result),
+          (error) =>
+            parseError(`invalid ${format} data: ${error instanceof Error ? error.message : error}`, this.offset),
+        ),
+    };
+  }
+}
+
+export class NBTEventReader implements AsyncIterable<NBTEvent> {
+  private source: ByteSource;
+  private littleEndian: boolean;
+  private varint: boolean;
+  private network: boolean;
+  private compression: Compression | "auto";
+  private accounter: LimitAccounter;
+
+  private stack: Frame[] = [];
+  private pendingTagId: number | null = null;
+  private lastEvent: NBTEvent | null = null;
+  private started: boolean = false;
+
+  constructor(source: NBTStreamSource, options: NBTStreamOptions = {}) {
+    this.source = new ByteSource(source);
+    this.littleEndian = options.encoding === "little-endian" || options.encoding === "varint";
+    this.varint = options.encoding === "varint";
+    this.network = options.network ?? false;
+    this.compression = options.compression ?? "auto";
+    this.accounter = new LimitAccounter(options.limits ?? {}, (reason, limit) => {
+      const offset = this.source.offset;
+      throw new ResourceLimitError(reason, limit, offset, `at byte ${offset}`, "");
+    });
+  }
+
+  private async view(bytes: number): Promise<DataView> {
+    const data = await this.source.read(bytes);
+    return new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  private async readVarInt(): Promise<number> {
+    let value = 0;
+
+    for (let shift = 0; shift < 35; shift += 7) {
+      const byte = await this.source.readByte();
+      value |= (byte & 0x7f) << shift;
+
+      if ((byte & 0x80) === 0) return value >>> 0;
+    }
+
+    parseError("varint is too long", this.source.offset);
+  }
+
+  private async readVarLong(): Promise<bigint> {
+    let value = 0n;
+
+    for (let shift = 0n; shift < 70n; shift += 7n) {
+      const byte = await this.source.readByte();
+      value |= BigInt(byte & 0x7f) << shift;
+
+      if ((byte & 0x80) === 0) return BigInt.asUintN(64, value);
+    }
+
+    parseError("varlong is too long", this.source.offset);
+  }
+
+  private async readInt(): Promise<number> {
+    if (!this.varint) return (await this.view(4)).getInt32(0, this.littleEndian);
+
+    const value = await this.readVarInt();
+    return (value >>> 1) ^ -(value & 1);
+  }
+
+  private async readLong(): Promise<bigint> {
+    if (!this.varint) return (await this.view(8)).getBigInt64(0, this.littleEndian);
+
+    const value = await this.readVarLong();
+    return BigInt.asIntN(64, (value >> 1n) ^ -(value & 1n));
+  }
+
+  private async readStringLength(): Promise<number> {
+    if (this.varint) return this.readVarInt();
+    return (await this.view(2)).getUint16(0, this.littleEndian);
+  }
+
+  private async readString(): Promise<string> {
+    const length = await this.readStringLength();
+
+    this.accounter.checkString(length);
+    this.accounter.account(stringSize(length));
+
+    return new TextDecoder().decode(await this.source.read(length));
+  }
+
+  private async readArrayLength(): Promise<number> {
+    const offset = this.source.offset;
+    const length = await this.readInt();
+    if (length < 0) parseError(`invalid array length ${length}`, offset, { expected: "a positive length" });
+
+    return length;
+  }
+
+  // arrays are only allocated once their data has arrived, so a bogus length cannot claim memory up front
+  private async readArrayHeader(elementSize: number): Promise<number> {
+    const length = await this.readArrayLength();
+
+    this.accounter.checkLength(length);
+    this.accounter.account(TAG_SIZES.array + length * elementSize);
+
+    return length;
+  }
+
+  private async readListHeader(): Promise<{ elementType: number; length: number }> {
+    const elementType = await this.source.readByte();
+    const offset = this.source.offset;
+    const length = await this.readInt();
+
+    if (length > 0 && elementType === tags.Tags.TAG_End)
+      parseError(`list of TAG_End cannot have ${length} elements`, offset, {
+        expected: "a length of 0",
+        actual: `${length}`,
+      });
+
+    return { elementType, length };
+  }
+
+  private async readValue(tagId: number): Promise<NBTEvent> {
+    if (tagId >= tags.Tags.TAG_Byte && tagId <= tags.Tags.TAG_Double) this.accounter.account(LITERAL_SIZES[tagId]);
+
+    switch (tagId) {
+      case tags.Tags.TAG_Byte:
+        return { type: "value", tag: new tags.ByteTag(((await this.source.readByte()) << 24) >> 24) };
+      case tags.Tags.TAG_Short:
+        return { type: "value", tag: new tags.ShortTag((await this.view(2)).getInt16(0, this.littleEndian)) };
+      case tags.Tags.TAG_Int:
+        return { type: "value", tag: new tags.IntTag(await this.readInt()) };
+      case tags.Tags.TAG_Long:
+        return { type: "value", tag: new tags.LongTag(await this.readLong()) };
+      case tags.Tags.TAG_Float:
+        return { type: "value", tag: new tags.FloatTag((await this.view(4)).getFloat32(0, this.littleEndian)) };
+      case tags.Tags.TAG_Double:
+        return { type: "value", tag: new tags.DoubleTag((await this.view(8)).getFloat64(0, this.littleEndian)) };
+      case tags.Tags.TAG_String:
+        return { type: "value", tag: new tags.StringTag(await this.readString()) };
+
+      case tags.Tags.TAG_Byte_Array: {
+        const bytes = await this.source.read(await this.readArrayHeader(1));
+        return { type: "array", tag: new tags.ByteArrayTag(new Int8Array(bytes)) };
+      }
+
+      case tags.Tags.TAG_Int_Array: {
+        const length = await this.readArrayHeader(4);
+
+        if (this.varint) {
+          const items: number[] = [];
+          for (let i = 0; i < length; i++) items.push(await this.readInt());
+
+          return { type: "array", tag: new tags.IntArrayTag(Int32Array.from(items)) };
+        }
+
+        const view = await this.view(length * 4);
+        const items = new Int32Array(length);
+        for (let i = 0; i < length; i++) items[i] = view.getInt32(i * 4, this.littleEndian);
+
+        return { type: "array", tag: new tags.IntArrayTag(items) };
+      }
+
+      case tags.Tags.TAG_Long_Array: {
+        const length = await this.readArrayHeader(8);
+
+        if (this.varint) {
+          const items: bigint[] = [];
+          for (let i = 0; i < length; i++) items.push(await this.readLong());
+
+          return { type: "array", tag: new tags.LongArrayTag(BigInt64Array.from(items)) };
+        }
+
+        const view = await this.view(length * 8);
+        const items = new BigInt64Array(length);
+        for (let i = 0; i < length; i++) items[i] = view.getBigInt64(i * 8, this.littleEndian);
+
+        return { type: "array", tag: new tags.LongArrayTag(items) };
+      }
+
+      case tags.Tags.TAG_Compound:
+        this.accounter.enter();
+        this.accounter.account(TAG_SIZES.compound);
+
+        this.stack.push({ kind: "compound" });
+        return { type: "enter-compound" };
+
+      case tags.Tags.TAG_List: {
+        const { elementType, length } = await this.readListHeader();
+
+        if (length > 0) {
+          this.accounter.checkLength(length);
+          this.accounter.account(TAG_SIZES.list + TAG_SIZES.listElement * length);
+        }
+
+        this.accounter.enter();
+        this.stack.push({ kind: "list", elementType, remaining: Math.max(0, length) });
+        return { type: "enter-list", elementType, length };
+      }
+    }
+
+    parseError(`cannot parse tag id '${stringifyByte(tagId)}'`, this.source.offset, {
+      expected: "a tag id",
+      actual: stringifyByte(tagId),
+    });
+  }
+
+  private fixedSize(tagId: number): number | undefined {
+    if (tagId === tags.Tags.TAG_Int && !this.varint) return 4;
+    if (tagId === tags.Tags.TAG_Long && !this.varint) return 8;
+
+    return FIXED_SIZES[tagId];
+  }
+
+  private async skipValue(tagId: number): Promise<void> {
+    const size = this.fixedSize(tagId);
+    if (size !== undefined) return this.source.skip(size);
+
+    switch (tagId) {
+      case tags.Tags.TAG_Int:
+        return void (await this.readVarInt());
+      case tags.Tags.TAG_Long:
+        return void (await this.readVarLong());
+      case tags.Tags.TAG_String:
+        return this.source.skip(await this.readStringLength());
+      case tags.Tags.TAG_Byte_Array:
+        return this.source.skip(await this.readArrayLength());
+      case tags.Tags.TAG_Int_Array:
+      case tags.Tags.TAG_Long_Array:
+        return this.skipList(
+          tagId === tags.Tags.TAG_Int_Array ? tags.Tags.TAG_Int : tags.Tags.TAG_Long,
+          await this.readArrayLength(),
+        );
+      case tags.Tags.TAG_List: {
+        const { elementType, length } = await this.readListHeader();
+
+        this.accounter.enter();
+        await this.skipList(elementType, length);
+        return this.accounter.exit();
+      }
+      case tags.Tags.TAG_Compound:
+        this.accounter.enter();
+        await this.skipCompound();
+        return this.accounter.exit();
+    }
+
+    parseError(`cannot parse tag id '${stringifyByte(tagId)}'`, this.source.offset, {
+      expected: "a tag id",
+      actual: stringifyByte(tagId),
+    });
+  }
+
+  private async skipList(elementType: number, length: number): Promise<void> {
+    const size = this.fixedSize(elementType);
+    if (size !== undefined) return this.source.skip(size * Math.max(0, length));
+
+    for (let i = 0; i < length; i++) await this.skipValue(elementType);
+  }
+
+  private async skipCompound(): Promise<void> {
+    while (true) {
+      const tagId = await this.source.readByte();
+      if (tagId === tags.Tags.TAG_End) return;
+
+      await this.source.skip(await this.readStringLength());
+      await this.skipValue(tagId);
+    }
+  }
+
+  private popFrame() {
+    this.stack.pop();
+    this.accounter.exit();
+  }
+
+  async next(): Promise<NBTEvent | null> {
+    this.lastEvent = await this.nextEvent();
+    return this.lastEvent;
+  }
+
+  private async nextEvent(): Promise<NBTEvent | null> {
+    if (this.pendingTagId !== null) {
+      const tagId = this.pendingTagId;
+      this.pendingTagId = null;
+
+      return this.readValue(tagId);
+    }
+
+    if (this.stack.length === 0) {
+      if (this.started) return null;
+      this.started = true;
+
+      await this.source.decompress(this.compression);
+      const tagId = await this.source.readByte();
+      if (tagId === tags.Tags.TAG_End)
+        parseError(`invalid root tag '${stringifyByte(tagId)}'`, this.source.offset - 1, {
+          expected: "a tag id",
+          actual: stringifyByte(tagId),
+        });
+
+      if (this.network) return this.readValue(tagId);
+
+      this.pendingTagId = tagId;
+      return { type: "key", name: await this.readString(), tagId };
+    }
+
+    const frame = this.stack[this.stack.length - 1];
+
+    if (frame.kind === "list") {
+      if (frame.remaining === 0) {
+        this.popFrame();
+        return { type: "exit" };
+      }
+
+      frame.remaining--;
+      return this.readValue(frame.elementType);
+    }
+
+    const tagId = await this.source.readByte();
+
+    if (tagId === tags.Tags.TAG_End) {
+      this.popFrame();
+      return { type: "exit" };
+    }
+
+    const name = await this.readString();
+    this.accounter.account(TAG_SIZES.compoundEntry);
+
+    this.pendingTagId = tagId;
+    return { type: "key", name, tagId };
+  }
+
+  // skips the value after a key event, or the rest of a compound or list that was just entered
+  async skip(): Promise<void> {
+    if (this.pendingTagId !== null) {
+      const tagId = this.pendingTagId;
+      this.pendingTagId = null;
+
+      return this.skipValue(tagId);
+    }
+
+    const event = this.lastEvent;
+    const frame = this.stack[this.stack.length - 1];
+
+    if (event?.type === "enter-compound" && frame?.kind === "compound") {
+      await this.skipCompound();
+      return this.popFrame();
+    }
+
+    if (event?.type === "enter-list" && frame?.kind === "list") {
+      await this.skipList(frame.elementType, frame.remaining);
+      return this.popFrame();
+    }
+
+    throw new Error("skip() must follow a key, enter-compound or enter-list event");
+  }
+
+  // reads the value after a key event, or the next value in a list, into a tag
+  async readTag(): Promise<tags.Tag> {
+    const event = await this.next();
+    if (!event) parseError("unexpected end of file", this.source.offset);
+
+    return this.buildTag(event);
+  }
+
+  private async buildTag(event: NBTEvent): Promise<tags.Tag> {
+    if (event.type === "value" || event.type === "array") return event.tag;
+
+    if (event.type === "enter-compound") {
+      const items: Map<string, tags.Tag> = new Map();
+
+      for (let child = await this.next(); child?.type === "key"; child = await this.next()) {
+        items.set(child.name, await this.readTag());
+      }
+
+      return new tags.CompoundTag(items);
+    }
+
+    if (event.type === "enter-list") {
+      const items: tags.Tag[] = [];
+
+      for (let child = await this.next(); child && child.type !== "exit"; child = await this.next()) {
+        items.push(await this.buildTag(child));
+      }
+
+      return new tags.ListTag(items, event.elementType);
+    }
+
+    throw new Error(`unexpected '${event.type}' event`);
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<NBTEvent> {
+    for (let event = await this.next(); event; event = await this.next()) yield event;
+  }
+}
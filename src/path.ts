@@ -0,0 +1,551 @@
+import * as tags from "./tags";
+import { SNBTParser } from "./parser/snbt";
+import { SNBTParseError } from "./errors";
+
+interface PathNode {
+  // adds every tag the node selects inside tag to results
+  get(tag: tags.Tag, results: tags.Tag[]): void;
+  // like get, but creates what is missing with create
+  getOrCreate(tag: tags.Tag, create: () => tags.Tag, results: tags.Tag[]): void;
+  // an empty tag of the kind this node selects from, used to create missing parents
+  createParent(): tags.Tag;
+  set(tag: tags.Tag, value: () => tags.Tag): number;
+  remove(tag: tags.Tag): number;
+}
+
+// partial match like the game does for filters: compounds only need the pattern's keys and lists the pattern's elements
+function matchesPattern(pattern: tags.Tag, tag: tags.Tag): boolean {
+  if (pattern.getId() !== tag.getId()) return false;
+
+  if (pattern instanceof tags.CompoundTag) {
+    const compound = tag as tags.CompoundTag;
+    return pattern
+      .list()
+      .every((key) => compound.get(key) !== null && matchesPattern(pattern.get(key)!, compound.get(key)!));
+  }
+
+  if (pattern instanceof tags.ListTag) {
+    const items = (tag as tags.ListTag).getValues();
+    if (pattern.getValues().length === 0) return items.length === 0;
+
+    return pattern.getValues().every((element) => items.some((item) => matchesPattern(element, item)));
+  }
+
+  return pattern.equals(tag);
+}
+
+// elements of array tags are exposed as the matching number tag
+function arrayElement(array: tags.ArrayTag<Int8Array | Int32Array | BigInt64Array>, index: number): tags.Tag {
+  const value = array.get(index);
+
+  if (array instanceof tags.ByteArrayTag) return new tags.ByteTag(value as number);
+  if (array instanceof tags.IntArrayTag) return new tags.IntTag(value as number);
+  return new tags.LongTag(value as bigint);
+}
+
+function setArrayElement(
+  array: tags.ArrayTag<Int8Array | Int32Array | BigInt64Array>,
+  index: number,
+  value: tags.Tag,
+): number {
+  const expected =
+    array instanceof tags.ByteArrayTag ? tags.ByteTag : array instanceof tags.IntArrayTag ? tags.IntTag : tags.LongTag;
+  if (!(value instanceof expected)) return 0;
+
+  array.set(index, (value as tags.LiteralTag<number | bigint>).getValue());
+  return 1;
+}
+
+class CompoundChildNode implements PathNode {
+  constructor(private key: string) {}
+
+  get(tag: tags.Tag, results: tags.Tag[]) {
+    const child = tag instanceof tags.CompoundTag ? tag.get(this.key) : null;
+    if (child) results.push(child);
+  }
+
+  getOrCreate(tag: tags.Tag, create: () => tags.Tag, results: tags.Tag[]) {
+    if (!(tag instanceof tags.CompoundTag)) return;
+
+    let child = tag.get(this.key);
+    if (!child) tag.put(this.key, (child = create()));
+
+    results.push(child);
+  }
+
+  createParent(): tags.Tag {
+    return new tags.CompoundTag({});
+  }
+
+  set(tag: tags.Tag, value: () => tags.Tag): number {
+    if (!(tag instanceof tags.CompoundTag)) return 0;
+
+    tag.put(this.key, value());
+    return 1;
+  }
+
+  remove(tag: tags.Tag): number {
+    if (!(tag instanceof tags.CompoundTag) || !tag.get(this.key)) return 0;
+
+    tag.delete(this.key);
+    return 1;
+  }
+}
+
+class MatchObjectNode implements PathNode {
+  constructor(
+    private key: string,
+    private pattern: tags.CompoundTag,
+  ) {}
+
+  get(tag: tags.Tag, results: tags.Tag[]) {
+    const child = tag instanceof tags.CompoundTag ? tag.get(this.key) : null;
+    if (child && matchesPattern(this.pattern, child)) results.push(child);
+  }
+
+  getOrCreate(tag: tags.Tag, _create: () => tags.Tag, results: tags.Tag[]) {
+    if (!(tag instanceof tags.CompoundTag)) return;
+
+    const child = tag.get(this.key);
+
+    if (!child) {
+      const created = this.pattern.clone();
+      tag.put(this.key, created);
+      results.push(created);
+    } else if (matchesPattern(this.pattern, child)) {
+      results.push(child);
+    }
+  }
+
+  createParent(): tags.Tag {
+    return new tags.CompoundTag({});
+  }
+
+  set(tag: tags.Tag, value: () => tags.Tag): number {
+    const matched: tags.Tag[] = [];
+    this.get(tag, matched);
+    if (matched.length === 0) return 0;
+
+    (tag as tags.CompoundTag).put(this.key, value());
+    return 1;
+  }
+
+  remove(tag: tags.Tag): number {
+    const matched: tags.Tag[] = [];
+    this.get(tag, matched);
+    if (matched.length === 0) return 0;
+
+    (tag as tags.CompoundTag).delete(this.key);
+    return 1;
+  }
+}
+
+class MatchRootObjectNode implements PathNode {
+  constructor(private pattern: tags.CompoundTag) {}
+
+  get(tag: tags.Tag, results: tags.Tag[]) {
+    if (matchesPattern(this.pattern, tag)) results.push(tag);
+  }
+
+  getOrCreate(tag: tags.Tag, _create: () => tags.Tag, results: tags.Tag[]) {
+    this.get(tag, results);
+  }
+
+  createParent(): tags.Tag {
+    return new tags.CompoundTag({});
+  }
+
+  // the root itself cannot be replaced or removed
+  set(): number {
+    return 0;
+  }
+
+  remove(): number {
+    return 0;
+  }
+}
+
+class IndexedElementNode implements PathNode {
+  constructor(private index: number) {}
+
+  // negative indices count from the end, null when out of range
+  private resolve(length: number): number | null {
+    const index = this.index < 0 ? length + this.index : this.index;
+    return index >= 0 && index < length ? index : null;
+  }
+
+  get(tag: tags.Tag, results: tags.Tag[]) {
+    if (tag instanceof tags.ListTag) {
+      const index = this.resolve(tag.size());
+      if (index !== null) results.push(tag.get(index));
+    } else if (tag instanceof tags.ArrayTag) {
+      const index = this.resolve(tag.size());
+      if (index !== null) results.push(arrayElement(tag, index));
+    }
+  }
+
+  getOrCreate(tag: tags.Tag, _create: () => tags.Tag, results: tags.Tag[]) {
+    this.get(tag, results);
+  }
+
+  createParent(): tags.Tag {
+    return new tags.ListTag([]);
+  }
+
+  set(tag: tags.Tag, value: () => tags.Tag): number {
+    if (tag instanceof tags.ListTag) {
+      const index = this.resolve(tag.size());
+      const element = value();
+      if (index === null || !tag.accepts(element)) return 0;
+
+      tag.set(index, element);
+      return 1;
+    }
+
+    if (tag instanceof tags.ArrayTag) {
+      const index = this.resolve(tag.size());
+      return index === null ? 0 : setArrayElement(tag, index, value());
+    }
+
+    return 0;
+  }
+
+  remove(tag: tags.Tag): number {
+    if (!(tag instanceof tags.ListTag) && !(tag instanceof tags.ArrayTag)) return 0;
+
+    const index = this.resolve(tag.size());
+    if (index === null) return 0;
+
+    tag.remove(index);
+    return 1;
+  }
+}
+
+class AllElementsNode implements PathNode {
+  get(tag: tags.Tag, results: tags.Tag[]) {
+    if (tag instanceof tags.ListTag) results.push(...tag.getValues());
+    else if (tag instanceof tags.ArrayTag) for (let i = 0; i < tag.size(); i++) results.push(arrayElement(tag, i));
+  }
+
+  getOrCreate(tag: tags.Tag, create: () => tags.Tag, results: tags.Tag[]) {
+    if (tag instanceof tags.ListTag && tag.size() === 0) {
+      const created = create();
+      if (tag.accepts(created)) tag.push(created);
+    }
+
+    this.get(tag, results);
+  }
+
+  createParent(): tags.Tag {
+    return new tags.ListTag([]);
+  }
+
+  set(tag: tags.Tag, value: () => tags.Tag): number {
+    if (tag instanceof tags.ListTag) {
+      if (!tag.accepts(value())) return 0;
+
+      if (tag.size() === 0) tag.push(value());
+      else for (let i = 0; i < tag.size(); i++) tag.set(i, value());
+
+      return tag.size();
+    }
+
+    if (tag instanceof tags.ArrayTag) {
+      let changed = 0;
+      for (let i = 0; i < tag.size(); i++) changed += setArrayElement(tag, i, value());
+
+      return changed;
+    }
+
+    return 0;
+  }
+
+  remove(tag: tags.Tag): number {
+    if (!(tag instanceof tags.ListTag) && !(tag instanceof tags.ArrayTag)) return 0;
+
+    const removed = tag.size();
+    tag.splice(0);
+
+    return removed;
+  }
+}
+
+class MatchElementNode implements PathNode {
+  constructor(private pattern: tags.CompoundTag) {}
+
+  get(tag: tags.Tag, results: tags.Tag[]) {
+    if (tag instanceof tags.ListTag)
+      results.push(...tag.getValues().filter((item) => matchesPattern(this.pattern, item)));
+  }
+
+  getOrCreate(tag: tags.Tag, _create: () => tags.Tag, results: tags.Tag[]) {
+    if (!(tag instanceof tags.ListTag)) return;
+
+    const before = results.length;
+    this.get(tag, results);
+
+    if (results.length === before && tag.accepts(this.pattern)) {
+      const created = this.pattern.clone();
+      tag.push(created);
+      results.push(created);
+    }
+  }
+
+  createParent(): tags.Tag {
+    return new tags.ListTag([]);
+  }
+
+  set(tag: tags.Tag, value: () => tags.Tag): number {
+    if (!(tag instanceof tags.ListTag)) return 0;
+
+    let changed = 0;
+
+    for (let i = 0; i < tag.size(); i++) {
+      if (!matchesPattern(this.pattern, tag.get(i))) continue;
+
+      const element = value();
+      if (!tag.accepts(element)) return changed;
+
+      tag.set(i, element);
+      changed++;
+    }
+
+    return changed;
+  }
+
+  remove(tag: tags.Tag): number {
+    if (!(tag instanceof tags.ListTag)) return 0;
+
+    const kept = tag.getValues().filter((item) => !matchesPattern(this.pattern, item));
+    const removed = tag.size() - kept.length;
+
+    tag.splice(0, tag.size(), ...kept);
+    return removed;
+  }
+}
+
+const KEY_TERMINATORS = [" ", '"', "'", "[", "]", ".", "{", "}"];
+
+class PathParser {
+  private pos: number = 0;
+
+  constructor(private source: string) {}
+
+  private error(reason: string, actual: string = this.source[this.pos] ?? "end of path"): never {
+    throw new SNBTParseError(reason, this.source, this.pos, "", { actual });
+  }
+
+  private expect(char: string) {
+    if (this.source[this.pos] !== char) this.error(`expected '${char}'`);
+    this.pos++;
+  }
+
+  // finds the end of the {...} starting at pos, skipping over quoted strings
+  private findCompoundEnd(): number {
+    let depth = 0;
+
+    for (let i = this.pos; i < this.source.length; i++) {
+      const char = this.source[i];
+
+      if (char === '"' || char === "'") {
+        for (i++; i < this.source.length && this.source[i] !== char; i++) if (this.source[i] === "\\") i++;
+      } else if (char === "{" || char === "[") {
+        depth++;
+      } else if ((char === "}" || char === "]") && --depth === 0) {
+        return i + 1;
+      }
+    }
+
+    this.error("unterminated compound filter");
+  }
+
+  private readCompound(): tags.CompoundTag {
+    const end = this.findCompoundEnd();
+    const tag = new SNBTParser(this.source.slice(0, end), {}, this.pos).parse();
+
+    if (!(tag instanceof tags.CompoundTag)) this.error("expected a compound filter");
+    this.pos = end;
+
+    return tag;
+  }
+
+  private readQuotedKey(): string {
+    const quote = this.source[this.pos++];
+    let key = "";
+
+    while (this.source[this.pos] !== quote) {
+      if (this.pos >= this.source.length) this.error(`expected closing ${quote}`);
+      if (this.source[this.pos] === "\\") this.pos++;
+
+      key += this.source[this.pos++];
+    }
+
+    this.pos++;
+    return key;
+  }
+
+  private readUnquotedKey(): string {
+    const start = this.pos;
+    while (this.pos < this.source.length && !KEY_TERMINATORS.includes(this.source[this.pos])) this.pos++;
+
+    if (this.pos === start) this.error("expected a key");
+    return this.source.slice(start, this.pos);
+  }
+
+  private readBracket(): PathNode {
+    this.expect("[");
+
+    let node: PathNode;
+
+    if (this.source[this.pos] === "]") {
+      node = new AllElementsNode();
+    } else if (this.source[this.pos] === "{") {
+      node = new MatchElementNode(this.readCompound());
+    } else {
+      const match = /^-?\d+/.exec(this.source.slice(this.pos));
+      if (!match) this.error("expected an index, a compound filter or ]");
+
+      node = new IndexedElementNode(Number(match[0]));
+      this.pos += match[0].length;
+    }
+
+    this.expect("]");
+    return node;
+  }
+
+  private readNode(first: boolean): PathNode {
+    const char = this.source[this.pos];
+
+    if (char === "{") {
+      if (!first) this.error("compound filters without a key are only allowed at the start of a path");
+      return new MatchRootObjectNode(this.readCompound());
+    }
+
+    if (char === "[") return this.readBracket();
+
+    const key = char === '"' || char === "'" ? this.readQuotedKey() : this.readUnquotedKey();
+    if (this.source[this.pos] === "{") return new MatchObjectNode(key, this.readCompound());
+
+    return new CompoundChildNode(key);
+  }
+
+  parse(): PathNode[] {
+    const nodes: PathNode[] = [];
+
+    while (this.pos < this.source.length) {
+      nodes.push(this.readNode(nodes.length === 0));
+
+      const char = this.source[this.pos];
+      if (this.pos < this.source.length && char !== "[" && char !== "{") {
+        this.expect(".");
+        if (this.pos === this.source.length) this.error("expected a key after '.'");
+      }
+    }
+
+    if (nodes.length === 0) this.error("empty path");
+    return nodes;
+  }
+}
+
+// a path in the syntax of the /data command, e.g. Inventory[{Slot: 1b}].tag.display.Name
+export class NBTPath {
+  private nodes: PathNode[];
+
+  constructor(private source: string) {
+    this.nodes = new PathParser(source).parse();
+  }
+
+  // tags selected by the first count nodes
+  private select(root: tags.Tag, count: number): tags.Tag[] {
+    let current = [root];
+
+    for (const node of this.nodes.slice(0, count)) {
+      const next: tags.Tag[] = [];
+      for (const tag of current) node.get(tag, next);
+
+      current = next;
+    }
+
+    return current;
+  }
+
+  // missing tags are created as what the following node expects, or with create after the last node
+  private selectOrCreate(root: tags.Tag, count: number, create?: () => tags.Tag): tags.Tag[] {
+    let current = [root];
+
+    for (let i = 0; i < count; i++) {
+      const next: tags.Tag[] = [];
+      const child = this.nodes[i + 1];
+
+      for (const tag of current) this.nodes[i].getOrCreate(tag, child ? () => child.createParent() : create!, next);
+      current = next;
+    }
+
+    return current;
+  }
+
+  get(root: tags.Tag): tags.Tag[] {
+    return this.select(root, this.nodes.length);
+  }
+
+  // the number of tags that were changed, intermediate compounds and lists are created as needed
+  set(root: tags.Tag, value: tags.Tag): number {
+    const last = this.nodes[this.nodes.length - 1];
+    const parents = this.selectOrCreate(root, this.nodes.length - 1);
+
+    return parents.reduce((changed, parent) => changed + last.set(parent, () => value.clone()), 0);
+  }
+
+  remove(root: tags.Tag): number {
+    const last = this.nodes[this.nodes.length - 1];
+    const parents = this.select(root, this.nodes.length - 1);
+
+    return parents.reduce((removed, parent) => removed + last.remove(parent), 0);
+  }
+
+  // merges value into every matched compound, nested compounds are merged and everything else replaced
+  merge(root: tags.Tag, value: tags.CompoundTag): number {
+    const targets = this.selectOrCreate(root, this.nodes.length, () => new tags.CompoundTag({}));
+    let changed = 0;
+
+    for (const target of targets) {
+      if (!(target instanceof tags.CompoundTag)) continue;
+
+      mergeCompound(target, value);
+      changed++;
+    }
+
+    return changed;
+  }
+
+  // appends value to every matched list
+  append(root: tags.Tag, value: tags.Tag): number {
+    const targets = this.selectOrCreate(root, this.nodes.length, () => new tags.ListTag([]));
+    let changed = 0;
+
+    for (const target of targets) {
+      if (!(target instanceof tags.ListTag)) continue;
+
+      if (!target.accepts(value)) continue;
+
+      target.push(value.clone());
+      changed++;
+    }
+
+    return changed;
+  }
+
+  toString(): string {
+    return this.source;
+  }
+}
+
+function mergeCompound(target: tags.CompoundTag, source: tags.CompoundTag) {
+  for (const key of source.list()) {
+    const value = source.get(key)!;
+    const existing = target.get(key);
+
+    if (value instanceof tags.CompoundTag && existing instanceof tags.CompoundTag) mergeCompound(existing, value);
+    else target.put(key, value.clone());
+  }
+}
@@ -0,0 +1,240 @@
+import type { NamedTag, Tag } from "./tags";
+import { NBTParser } from "./parser/nbt";
+import { NBTDumper } from "./dump";
+import { compress, decompress, type Compression, type CompressionCodec } from "./compression";
+import { decompressLZ4 } from "./compression/lz4";
+
+const SECTOR_SIZE = 4096;
+const HEADER_SECTORS = 2;
+const CHUNK_COUNT = 1024;
+const MAX_CHUNK_SECTORS = 255;
+
+const CHUNK_HEADER_SIZE = 5;
+const EXTERNAL_FLAG = 0x80;
+
+export type ChunkCompression = Compression | "lz4";
+
+const COMPRESSION_IDS: Record<ChunkCompression, number> = { gzip: 1, zlib: 2, none: 3, lz4: 4 };
+const COMPRESSION_CUSTOM = 127;
+
+export interface RegionFileOptions {
+  codec?: CompressionCodec;
+  // oversized chunks live in a separate c.<x>.<z>.mcc file, called with the coordinates given to read/write
+  readExternal?(x: number, z: number): Uint8Array;
+  writeExternal?(x: number, z: number, data: Uint8Array | null): void;
+}
+
+export interface ChunkWriteOptions {
+  compression?: ChunkCompression;
+  // seconds since the unix epoch, defaults to now
+  timestamp?: number;
+}
+
+// works for both anvil (.mca) and mcregion (.mcr) files, they share the same container
+export class RegionFile {
+  private buffer: Uint8Array;
+  private view: DataView;
+  private usedSectors: boolean[];
+
+  constructor(
+    data: Uint8Array = new Uint8Array(0),
+    private options: RegionFileOptions = {},
+  ) {
+    if (data.length > 0 && data.length < HEADER_SECTORS * SECTOR_SIZE)
+      throw new Error("region file is too small to contain its header");
+
+    const sectorCount = Math.max(HEADER_SECTORS, Math.ceil(data.length / SECTOR_SIZE));
+
+    this.buffer = new Uint8Array(sectorCount * SECTOR_SIZE);
+    this.buffer.set(data);
+    this.view = new DataView(this.buffer.buffer);
+
+    this.usedSectors = new Array(sectorCount).fill(false);
+    this.usedSectors.fill(true, 0, HEADER_SECTORS);
+
+    for (let i = 0; i < CHUNK_COUNT; i++) {
+      const location = this.view.getUint32(i * 4);
+      if (location === 0) continue;
+
+      const offset = location >>> 8;
+      const count = location & 0xff;
+
+      if (offset < HEADER_SECTORS || offset + count > sectorCount)
+        throw new Error(`chunk ${i % 32}, ${i >> 5} points outside of the region file`);
+
+      this.usedSectors.fill(true, offset, offset + count);
+    }
+  }
+
+  private index(x: number, z: number): number {
+    return (x & 31) + (z & 31) * 32;
+  }
+
+  private growBuffer(sectors: number) {
+    if (sectors * SECTOR_SIZE > this.buffer.length) {
+      const newBuffer = new Uint8Array(Math.max(sectors * SECTOR_SIZE, this.buffer.length * 2));
+      newBuffer.set(this.buffer);
+
+      this.buffer = newBuffer;
+      this.view = new DataView(this.buffer.buffer);
+    }
+
+    while (this.usedSectors.length < sectors) this.usedSectors.push(false);
+  }
+
+  private allocate(count: number): number {
+    let start = HEADER_SECTORS;
+
+    for (let i = HEADER_SECTORS; i < this.usedSectors.length; i++) {
+      if (this.usedSectors[i]) start = i + 1;
+      else if (i - start + 1 === count) break;
+    }
+
+    this.growBuffer(start + count);
+    this.usedSectors.fill(true, start, start + count);
+
+    return start;
+  }
+
+  private free(index: number) {
+    const location = this.view.getUint32(index * 4);
+    if (location === 0) return;
+
+    const offset = location >>> 8;
+    const count = location & 0xff;
+
+    this.usedSectors.fill(false, offset, offset + count);
+    this.buffer.fill(0, offset * SECTOR_SIZE, (offset + count) * SECTOR_SIZE);
+  }
+
+  private isExternal(index: number): boolean {
+    const location = this.view.getUint32(index * 4);
+    if (location === 0) return false;
+
+    return (this.buffer[(location >>> 8) * SECTOR_SIZE + 4] & EXTERNAL_FLAG) !== 0;
+  }
+
+  private decompressChunk(payload: Uint8Array, type: number): Uint8Array {
+    let data: Uint8Array | Promise<Uint8Array>;
+
+    if (type === COMPRESSION_IDS.gzip) data = decompress(payload, "gzip", this.options.codec);
+    else if (type === COMPRESSION_IDS.zlib) data = decompress(payload, "zlib", this.options.codec);
+    else if (type === COMPRESSION_IDS.none) data = payload.slice();
+    else if (type === COMPRESSION_IDS.lz4) data = decompressLZ4(payload);
+    else if (type === COMPRESSION_CUSTOM) throw new Error("custom chunk compression is not supported");
+    else throw new Error(`unknown chunk compression type '${type}'`);
+
+    if (data instanceof Promise) throw new Error("region files need a synchronous compression codec");
+    return data;
+  }
+
+  private compressChunk(data: Uint8Array, compression: ChunkCompression): Uint8Array {
+    if (compression === "lz4") throw new Error("writing lz4 compressed chunks is not supported");
+
+    const compressed = compress(data, compression, this.options.codec);
+    if (compressed instanceof Promise) throw new Error("region files need a synchronous compression codec");
+
+    return compressed;
+  }
+
+  hasChunk(x: number, z: number): boolean {
+    return this.view.getUint32(this.index(x, z) * 4) !== 0;
+  }
+
+  getTimestamp(x: number, z: number): number {
+    return this.view.getUint32(SECTOR_SIZE + this.index(x, z) * 4);
+  }
+
+  // local coordinates of every chunk present in the region
+  listChunks(): [number, number][] {
+    const chunks: [number, number][] = [];
+
+    for (let i = 0; i < CHUNK_COUNT; i++) {
+      if (this.view.getUint32(i * 4) !== 0) chunks.push([i & 31, i >> 5]);
+    }
+
+    return chunks;
+  }
+
+  readChunkData(x: number, z: number): Uint8Array | null {
+    const location = this.view.getUint32(this.index(x, z) * 4);
+    if (location === 0) return null;
+
+    const offset = (location >>> 8) * SECTOR_SIZE;
+    const length = this.view.getUint32(offset);
+
+    if (length === 0 || offset + 4 + length > this.buffer.length)
+      throw new Error(`chunk ${x}, ${z} has an invalid length of ${length} bytes`);
+
+    const type = this.buffer[offset + 4];
+
+    if (type & EXTERNAL_FLAG) {
+      if (!this.options.readExternal)
+        throw new Error(`chunk ${x}, ${z} is stored in an external file, but no readExternal option was given`);
+
+      return this.decompressChunk(this.options.readExternal(x, z), type & ~EXTERNAL_FLAG);
+    }
+
+    return this.decompressChunk(this.buffer.subarray(offset + CHUNK_HEADER_SIZE, offset + 4 + length), type);
+  }
+
+  readChunk(x: number, z: number): NamedTag | null {
+    const data = this.readChunkData(x, z);
+    return data && new NBTParser(data).parse();
+  }
+
+  writeChunkData(x: number, z: number, data: Uint8Array, options: ChunkWriteOptions = {}) {
+    const index = this.index(x, z);
+    const compression = options.compression ?? "zlib";
+
+    let payload = this.compressChunk(data, compression);
+    let type = COMPRESSION_IDS[compression];
+
+    const external = Math.ceil((CHUNK_HEADER_SIZE + payload.length) / SECTOR_SIZE) > MAX_CHUNK_SECTORS;
+
+    if (external) {
+      if (!this.options.writeExternal)
+        throw new Error(`chunk ${x}, ${z} is too large for the region file, but no writeExternal option was given`);
+
+      this.options.writeExternal(x, z, payload);
+
+      payload = new Uint8Array(0);
+      type |= EXTERNAL_FLAG;
+    } else if (this.isExternal(index)) {
+      this.options.writeExternal?.(x, z, null);
+    }
+
+    this.free(index);
+
+    const sectors = Math.ceil((CHUNK_HEADER_SIZE + payload.length) / SECTOR_SIZE);
+    const offset = this.allocate(sectors);
+
+    this.view.setUint32(offset * SECTOR_SIZE, payload.length + 1);
+    this.buffer[offset * SECTOR_SIZE + 4] = type;
+    this.buffer.set(payload, offset * SECTOR_SIZE + CHUNK_HEADER_SIZE);
+
+    this.view.setUint32(index * 4, (offset << 8) | sectors);
+    this.view.setUint32(SECTOR_SIZE + index * 4, options.timestamp ?? Math.floor(Date.now() / 1000));
+  }
+
+  writeChunk(x: number, z: number, root: Tag | NamedTag, options?: ChunkWriteOptions) {
+    this.writeChunkData(x, z, new NBTDumper(root).dump(), options);
+  }
+
+  deleteChunk(x: number, z: number) {
+    const index = this.index(x, z);
+
+    if (this.isExternal(index)) this.options.writeExternal?.(x, z, null);
+    this.free(index);
+
+    this.view.setUint32(index * 4, 0);
+    this.view.setUint32(SECTOR_SIZE + index * 4, 0);
+  }
+
+  dump(): Uint8Array {
+    let sectors = this.usedSectors.length;
+    while (sectors > HEADER_SECTORS && !this.usedSectors[sectors - 1]) sectors--;
+
+    return this.buffer.slice(0, sectors * SECTOR_SIZE);
+  }
+}
@@ -0,0 +1,429 @@
+import * as tags from "./tags";
+import * as codecs from "./codec";
+import { CodecError } from "./errors";
+import { stringifyPath, type PathSegment } from "./util";
+import { parseBlockState, stringifyBlockState, type BlockState } from "./block";
+import { AIR, BlockVolume, withBlockPosition, withoutKeys } from "./volume";
+import { StructureTemplate, type Vector3 } from "./structure";
+import { mergeLitematicRegions, readLitematic } from "./litematic";
+
+export interface LegacyBlockMapping {
+  toState(id: number, data: number): BlockState;
+  // null when the state has nothing to map to
+  fromState(state: BlockState): [id: number, data: number] | null;
+}
+
+/*
+ * keeps numeric ids as legacy:<id>[data=<data>] states so legacy schematics survive a round trip,
+ * turning them into real states takes a mapping of the game's flattening
+ */
+export const rawLegacyMapping: LegacyBlockMapping = {
+  toState(id, data) {
+    return id === 0 && data === 0 ? AIR : { name: `legacy:${id}`, properties: { data: `${data}` } };
+  },
+
+  fromState(state) {
+    if (state.name === AIR.name) return [0, 0];
+
+    const id = /^legacy:(\d+)$/.exec(state.name);
+    const data = /^\d+$/.test(state.properties.data ?? "") ? Number(state.properties.data) : 0;
+
+    return id ? [Number(id[1]), data] : null;
+  },
+};
+
+export interface SchematicReadOptions {
+  // for mcedit schematics, defaults to rawLegacyMapping
+  legacyMapping?: LegacyBlockMapping;
+}
+
+export interface SpongeWriteOptions {
+  version?: 2 | 3;
+  // where the schematic is placed relative to whoever pastes it
+  offset?: Vector3;
+}
+
+export interface MCEditWriteOptions {
+  legacyMapping?: LegacyBlockMapping;
+}
+
+const SPONGE_HEADER = codecs.compound({
+  Version: codecs.int,
+  DataVersion: codecs.optional(codecs.int),
+  Width: codecs.short,
+  Height: codecs.short,
+  Length: codecs.short,
+  Entities: codecs.defaulted(codecs.list(codecs.compoundTag), []),
+});
+
+// version 3 keeps these in a Blocks compound, 1 and 2 at the top with BlockData for Data
+const SPONGE_BLOCKS = codecs.compound({
+  Palette: codecs.map(codecs.int),
+  Data: codecs.optional(codecs.byteArray),
+  BlockData: codecs.optional(codecs.byteArray),
+  BlockEntities: codecs.optional(codecs.list(codecs.compoundTag)),
+  TileEntities: codecs.optional(codecs.list(codecs.compoundTag)),
+});
+
+const MCEDIT = codecs.compound({
+  Width: codecs.short,
+  Height: codecs.short,
+  Length: codecs.short,
+  Materials: codecs.defaulted(codecs.string, "Alpha"),
+  Blocks: codecs.byteArray,
+  Data: codecs.byteArray,
+  // the high 4 bits of ids above 255, two blocks to a byte. schematica wrote a byte per block as Add instead
+  AddBlocks: codecs.optional(codecs.byteArray),
+  Add: codecs.optional(codecs.byteArray),
+  TileEntities: codecs.defaulted(codecs.list(codecs.compoundTag), []),
+  Entities: codecs.defaulted(codecs.list(codecs.compoundTag), []),
+});
+
+const BLOCK_POSITION = codecs.compound({ x: codecs.int, y: codecs.int, z: codecs.int });
+const ENTITY_POSITION = codecs.compound({ Pos: codecs.list(codecs.double) });
+const SPONGE_ENTRY = codecs.compound({ Id: codecs.string, Data: codecs.optional(codecs.compoundTag) });
+
+function fail(reason: string, path: PathSegment[]): never {
+  throw new CodecError(reason, stringifyPath(path));
+}
+
+function readVector(values: ArrayLike<number>, path: PathSegment[]): Vector3 {
+  if (values.length !== 3) fail(`expected 3 coordinates but got ${values.length}`, path);
+  return [Number(values[0]), Number(values[1]), Number(values[2])];
+}
+
+// sizes are unsigned shorts
+function readSize(width: number, height: number, length: number): Vector3 {
+  return [width & 0xffff, height & 0xffff, length & 0xffff];
+}
+
+function writeSize(length: number): number {
+  if (length > 0xffff) throw new Error(`${length} blocks is too long for a schematic`);
+  return (length << 16) >> 16;
+}
+
+function readEntityPosition(entity: tags.CompoundTag, path: PathSegment[]): Vector3 {
+  return readVector(ENTITY_POSITION.read(entity, path).Pos, [...path, "Pos"]);
+}
+
+function readVarInts(bytes: Int8Array, count: number, path: PathSegment[]): Uint32Array {
+  const values = new Uint32Array(count);
+  let offset = 0;
+
+  for (let i = 0; i < count; i++) {
+    let value = 0;
+    let shift = 0;
+    let byte: number;
+
+    do {
+      if (offset >= bytes.length) fail(`ends after ${i} of ${count} blocks`, path);
+      if (shift > 28) fail(`block ${i} has a varint that is too long`, path);
+
+      byte = bytes[offset++];
+      value |= (byte & 0x7f) << shift;
+      shift += 7;
+    } while (byte & 0x80);
+
+    values[i] = value >>> 0;
+  }
+
+  if (offset !== bytes.length) fail(`has ${bytes.length - offset} bytes after the last block`, path);
+  return values;
+}
+
+function writeVarInts(values: Uint32Array): Int8Array {
+  const bytes: number[] = [];
+
+  for (let value of values) {
+    while (value > 0x7f) {
+      bytes.push((value & 0x7f) | 0x80);
+      value >>>= 7;
+    }
+
+    bytes.push(value);
+  }
+
+  return new Int8Array(bytes);
+}
+
+// a copy with every state in the palette once and only the states that are used
+function compacted(volume: BlockVolume): BlockVolume {
+  const copy = BlockVolume.fromData(volume.getSize(), volume.getPalette(), volume.getData(), volume.dataVersion);
+  copy.compactPalette();
+
+  return copy;
+}
+
+// sponge schematic versions 1, 2 and 3, for version 3 the root compound holding Schematic can be passed
+export function readSpongeSchematic(tag: tags.Tag): BlockVolume {
+  const nested = tag instanceof tags.CompoundTag && !tag.get("Version") && tag.get("Schematic") !== null;
+  const root = nested ? (tag as tags.CompoundTag).get("Schematic")! : tag;
+  const rootPath: PathSegment[] = nested ? ["Schematic"] : [];
+
+  const header = SPONGE_HEADER.read(root, rootPath);
+  const version = header.Version;
+
+  if (version < 1 || version > 3) throw new Error(`unsupported sponge schematic version ${version}`);
+
+  const size = readSize(header.Width, header.Height, header.Length);
+  const blocksTag = version === 3 ? (root as tags.CompoundTag).get("Blocks") : root;
+  const blocksPath = version === 3 ? [...rootPath, "Blocks"] : rootPath;
+
+  // a version 3 schematic without blocks is all air
+  if (!blocksTag) return new BlockVolume(size, header.DataVersion);
+
+  const blocks = SPONGE_BLOCKS.read(blocksTag, blocksPath);
+  const palette: BlockState[] = [];
+
+  const entries = Object.entries(blocks.Palette);
+
+  for (const [key, index] of entries) {
+    if (index < 0 || index >= entries.length)
+      fail(`index ${index} is out of range for ${entries.length} states`, [...blocksPath, "Palette", key]);
+
+    palette[index] = parseBlockState(key);
+  }
+
+  // gaps left by states sharing an index are never pointed at by valid schematics
+  for (let i = 0; i < palette.length; i++) palette[i] ??= AIR;
+
+  const dataKey = version === 3 ? "Data" : "BlockData";
+  const bytes = blocks[dataKey];
+
+  if (!bytes) fail(`missing key '${dataKey}'`, blocksPath);
+
+  const data = readVarInts(bytes, size[0] * size[1] * size[2], [...blocksPath, dataKey]);
+  const volume = BlockVolume.fromData(size, palette.length > 0 ? palette : [AIR], data, header.DataVersion);
+
+  const blockEntitiesKey = version === 1 ? "TileEntities" : "BlockEntities";
+
+  blocks[blockEntitiesKey]?.forEach((entry, index) => {
+    const path = [...blocksPath, blockEntitiesKey, index];
+    const pos = entry.get("Pos");
+
+    if (!(pos instanceof tags.IntArrayTag)) fail("expected Pos to be an int array", path);
+
+    const [x, y, z] = readVector(pos.getValues(), [...path, "Pos"]);
+    if (!volume.contains(x, y, z)) fail(`${x}, ${y}, ${z} is outside of the schematic`, path);
+
+    volume.setBlockEntity(x, y, z, readSpongeEntry(entry, version, path));
+  });
+
+  volume.entities = header.Entities.map((entry, index) => {
+    const path = [...rootPath, "Entities", index];
+    return { pos: readEntityPosition(entry, path), nbt: readSpongeEntry(entry, version, path) };
+  });
+
+  return volume;
+}
+
+// version 3 nests the data in Data, earlier versions keep it next to Id and Pos
+function readSpongeEntry(entry: tags.CompoundTag, version: number, path: PathSegment[]): tags.CompoundTag {
+  const { Id, Data } = SPONGE_ENTRY.read(entry, path);
+  const source = version === 3 ? Data : entry;
+  const nbt = new tags.CompoundTag({ id: new tags.StringTag(Id) });
+
+  for (const key of source?.list() ?? []) {
+    if (key !== "id" && (version === 3 || (key !== "Id" && key !== "Pos"))) nbt.put(key, source!.get(key)!.clone());
+  }
+
+  return nbt;
+}
+
+function writeSpongeEntry(
+  nbt: tags.CompoundTag,
+  pos: tags.Tag,
+  version: number,
+  description: string,
+): tags.CompoundTag {
+  const id = nbt.get("id");
+  if (!(id instanceof tags.StringTag)) throw new Error(`${description} has no string id`);
+
+  const data = withoutKeys(nbt, ["id"]);
+  const items = new Map<string, tags.Tag>([
+    ["Pos", pos],
+    ["Id", id.clone()],
+  ]);
+
+  if (version === 3) items.set("Data", data);
+  else for (const key of data.list()) items.set(key, data.get(key)!);
+
+  return new tags.CompoundTag(items);
+}
+
+export function writeSpongeSchematic(volume: BlockVolume, options: SpongeWriteOptions = {}): tags.NamedTag {
+  const version = options.version ?? 3;
+  const [width, height, length] = volume.getSize();
+
+  if (volume.dataVersion === undefined) throw new Error("sponge schematics need a data version");
+
+  const compact = compacted(volume);
+  const palette = new Map<string, tags.Tag>(
+    compact.getPalette().map((state, index) => [stringifyBlockState(state), new tags.IntTag(index)]),
+  );
+
+  const blockEntities = volume.listBlockEntities().map((blockEntity) => {
+    const pos = new tags.IntArrayTag([blockEntity.x, blockEntity.y, blockEntity.z]);
+    return writeSpongeEntry(blockEntity.nbt, pos, version, `the block entity at ${pos.getValues().join(", ")}`);
+  });
+
+  const entities = volume.entities.map((entity, index) => {
+    const pos = new tags.ListTag(entity.pos.map((value) => new tags.DoubleTag(value)));
+    return writeSpongeEntry(entity.nbt, pos, version, `entity ${index}`);
+  });
+
+  const schematic = new Map<string, tags.Tag>([
+    ["Version", new tags.IntTag(version)],
+    ["DataVersion", new tags.IntTag(volume.dataVersion)],
+    ["Width", new tags.ShortTag(writeSize(width))],
+    ["Height", new tags.ShortTag(writeSize(height))],
+    ["Length", new tags.ShortTag(writeSize(length))],
+    ["Offset", new tags.IntArrayTag(options.offset ?? [0, 0, 0])],
+  ]);
+
+  const blockData = new tags.ByteArrayTag(writeVarInts(compact.getData()));
+  const blockEntityList = new tags.ListTag(blockEntities, tags.Tags.TAG_Compound);
+
+  if (version === 3) {
+    schematic.set(
+      "Blocks",
+      new tags.CompoundTag({ Palette: new tags.CompoundTag(palette), Data: blockData, BlockEntities: blockEntityList }),
+    );
+  } else {
+    schematic.set("PaletteMax", new tags.IntTag(palette.size));
+    schematic.set("Palette", new tags.CompoundTag(palette));
+    schematic.set("BlockData", blockData);
+    schematic.set("BlockEntities", blockEntityList);
+  }
+
+  schematic.set("Entities", new tags.ListTag(entities, tags.Tags.TAG_Compound));
+
+  // version 3 wraps everything in a Schematic compound, version 2 names the root instead
+  return version === 3
+    ? { name: "", tag: new tags.CompoundTag({ Schematic: new tags.CompoundTag(schematic) }) }
+    : { name: "Schematic", tag: new tags.CompoundTag(schematic) };
+}
+
+// the pre-1.13 format mcedit and worldedit used, with numeric ids and data values
+export function readMCEditSchematic(tag: tags.Tag, options: SchematicReadOptions = {}): BlockVolume {
+  const mapping = options.legacyMapping ?? rawLegacyMapping;
+  const schematic = MCEDIT.decode(tag);
+
+  if (schematic.Materials !== "Alpha") throw new Error(`unsupported schematic materials '${schematic.Materials}'`);
+
+  const size = readSize(schematic.Width, schematic.Height, schematic.Length);
+  const count = size[0] * size[1] * size[2];
+
+  if (schematic.Blocks.length !== count)
+    fail(`has ${schematic.Blocks.length} blocks but the schematic has ${count}`, ["Blocks"]);
+  if (schematic.Data.length !== count)
+    fail(`has ${schematic.Data.length} blocks but the schematic has ${count}`, ["Data"]);
+
+  const palette: BlockState[] = [];
+  const indices = new Map<number, number>();
+  const data = new Uint32Array(count);
+
+  for (let i = 0; i < count; i++) {
+    let id = schematic.Blocks[i] & 0xff;
+
+    if (schematic.AddBlocks && i >> 1 < schematic.AddBlocks.length)
+      id |= ((schematic.AddBlocks[i >> 1] >> (i & 1 ? 4 : 0)) & 0x0f) << 8;
+    else if (schematic.Add && i < schematic.Add.length) id |= (schematic.Add[i] & 0xff) << 8;
+
+    const key = (id << 4) | (schematic.Data[i] & 0x0f);
+    let index = indices.get(key);
+
+    if (index === undefined) {
+      index = palette.length;
+
+      palette.push(mapping.toState(id, schematic.Data[i] & 0x0f));
+      indices.set(key, index);
+    }
+
+    data[i] = index;
+  }
+
+  const volume = BlockVolume.fromData(size, palette.length > 0 ? palette : [AIR], data);
+
+  schematic.TileEntities.forEach((entry, index) => {
+    const path = ["TileEntities", index];
+    const { x, y, z } = BLOCK_POSITION.read(entry, path);
+
+    if (!volume.contains(x, y, z)) fail(`${x}, ${y}, ${z} is outside of the schematic`, path);
+    volume.setBlockEntity(x, y, z, withoutKeys(entry, ["x", "y", "z"]));
+  });
+
+  volume.entities = schematic.Entities.map((entry, index) => ({
+    pos: readEntityPosition(entry, ["Entities", index]),
+    nbt: withoutKeys(entry, ["Pos"]),
+  }));
+
+  return volume;
+}
+
+export function writeMCEditSchematic(volume: BlockVolume, options: MCEditWriteOptions = {}): tags.NamedTag {
+  const mapping = options.legacyMapping ?? rawLegacyMapping;
+  const [width, height, length] = volume.getSize();
+
+  const legacy = volume.getPalette().map((state) => {
+    const ids = mapping.fromState(state);
+    if (!ids) throw new Error(`${stringifyBlockState(state)} has no legacy id`);
+
+    return ids;
+  });
+
+  const data = volume.getData();
+  const blocks = new Int8Array(data.length);
+  const values = new Int8Array(data.length);
+  const add = new Int8Array((data.length + 1) >> 1);
+  let hasAdd = false;
+
+  for (let i = 0; i < data.length; i++) {
+    const [id, value] = legacy[data[i]];
+
+    blocks[i] = id;
+    values[i] = value & 0x0f;
+
+    if (id > 0xff) {
+      add[i >> 1] |= ((id >> 8) & 0x0f) << (i & 1 ? 4 : 0);
+      hasAdd = true;
+    }
+  }
+
+  const schematic = new Map<string, tags.Tag>([
+    ["Width", new tags.ShortTag(writeSize(width))],
+    ["Height", new tags.ShortTag(writeSize(height))],
+    ["Length", new tags.ShortTag(writeSize(length))],
+    ["Materials", new tags.StringTag("Alpha")],
+    ["Blocks", new tags.ByteArrayTag(blocks)],
+    ["Data", new tags.ByteArrayTag(values)],
+  ]);
+
+  if (hasAdd) schematic.set("AddBlocks", new tags.ByteArrayTag(add));
+
+  const blockEntities = volume.listBlockEntities().map(({ x, y, z, nbt }) => withBlockPosition(nbt, x, y, z));
+
+  const entities = volume.entities.map((entity) => {
+    const entry = withoutKeys(entity.nbt, []);
+    entry.put("Pos", new tags.ListTag(entity.pos.map((value) => new tags.DoubleTag(value))));
+
+    return entry;
+  });
+
+  schematic.set("TileEntities", new tags.ListTag(blockEntities, tags.Tags.TAG_Compound));
+  schematic.set("Entities", new tags.ListTag(entities, tags.Tags.TAG_Compound));
+
+  return { name: "Schematic", tag: new tags.CompoundTag(schematic) };
+}
+
+// tells the formats apart by their keys: litematica regions are merged and structure voids become structure_void
+export function readSchematic(tag: tags.Tag, options: SchematicReadOptions = {}): BlockVolume {
+  if (!(tag instanceof tags.CompoundTag)) throw new Error(`expected a compound but got ${tag.constructor.name}`);
+
+  if (tag.get("Regions")) return mergeLitematicRegions(readLitematic(tag).regions);
+  if (tag.get("Materials") || tag.get("Blocks") instanceof tags.ByteArrayTag) return readMCEditSchematic(tag, options);
+  if (tag.get("Version") || tag.get("Schematic")) return readSpongeSchematic(tag);
+  if (tag.get("palette") || tag.get("palettes")) return StructureTemplate.fromTag(tag).toVolume();
+
+  throw new Error("unknown schematic format");
+}
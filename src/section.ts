@@ -0,0 +1,387 @@
+import * as tags from "./tags";
+import * as codecs from "./codec";
+import { CodecError } from "./errors";
+import { stringifyPath, type PathSegment } from "./util";
+import { blockStateCodec, blockStateKey, cloneBlockState, type BlockState } from "./block";
+import { bitsFor, PackedArray } from "./bits";
+import { rawLegacyMapping, type LegacyBlockMapping } from "./schematic";
+import { AIR } from "./volume";
+
+export interface PalettedContainerOptions<T> {
+  // values along each edge of the cube, 16 for block states and 4 for biomes
+  edge: number;
+  // the fewest bits an entry takes once there is more than one value
+  minBits: number;
+  // whether entries stay within a long (1.16+) or can span two
+  aligned: boolean;
+  // whether a single value palette still packs its indices (before 1.18) or leaves the data out
+  packSingle: boolean;
+  key(value: T): string;
+  clone(value: T): T;
+}
+
+/*
+ * a palette and the packed palette index of every entry, how chunk sections store block states and biomes.
+ * the bits per entry grow as the palette does
+ */
+export class PalettedContainer<T> {
+  private palette: T[] = [];
+  private indices = new Map<string, number>();
+  private storage: PackedArray | null = null;
+  private size: number;
+
+  constructor(
+    palette: T[],
+    data: BigInt64Array | null,
+    private options: PalettedContainerOptions<T>,
+  ) {
+    if (palette.length === 0) throw new Error("the palette is empty");
+
+    this.size = options.edge ** 3;
+    for (const value of palette) this.addToPalette(value);
+
+    const bits = this.bitsFor(palette.length);
+
+    if (bits > 0) {
+      if (!data && palette.length > 1) throw new Error(`a palette of ${palette.length} values needs packed data`);
+      this.storage = new PackedArray(bits, this.size, options.aligned, data?.slice());
+
+      for (let i = 0; i < this.size; i++) {
+        const index = this.storage.get(i);
+        if (index >= palette.length) throw new Error(`entry ${i} has index ${index}, which is not in the palette`);
+      }
+    }
+  }
+
+  // a container where every entry is the value
+  static filled<T>(value: T, options: PalettedContainerOptions<T>): PalettedContainer<T> {
+    return new PalettedContainer([value], null, options);
+  }
+
+  private bitsFor(paletteSize: number): number {
+    if (paletteSize <= 1 && !this.options.packSingle) return 0;
+    return Math.max(this.options.minBits, bitsFor(paletteSize));
+  }
+
+  private addToPalette(value: T): number {
+    const key = this.options.key(value);
+    if (!this.indices.has(key)) this.indices.set(key, this.palette.length);
+
+    this.palette.push(this.options.clone(value));
+    return this.palette.length - 1;
+  }
+
+  private index(x: number, y: number, z: number): number {
+    const edge = this.options.edge;
+
+    if (![x, y, z].every((value) => Number.isInteger(value) && value >= 0 && value < edge))
+      throw new Error(`${x}, ${y}, ${z} is outside of the container`);
+
+    return (y * edge + z) * edge + x;
+  }
+
+  private paletteIndex(entry: number): number {
+    return this.storage ? this.storage.get(entry) : 0;
+  }
+
+  getBitsPerEntry(): number {
+    return this.storage?.bits ?? 0;
+  }
+
+  // repacks every entry with the new width, which has to fit every palette index
+  resize(bits: number) {
+    if (bits < this.bitsFor(this.palette.length))
+      throw new Error(`${bits} bits cannot hold a palette of ${this.palette.length} values`);
+    if (bits === this.getBitsPerEntry()) return;
+
+    const storage = bits > 0 ? new PackedArray(bits, this.size, this.options.aligned) : null;
+    if (storage) for (let i = 0; i < this.size; i++) storage.set(i, this.paletteIndex(i));
+
+    this.storage = storage;
+  }
+
+  getPalette(): T[] {
+    return this.palette.map(this.options.clone);
+  }
+
+  // the packed palette indices, null when a single value palette leaves them out
+  getData(): BigInt64Array | null {
+    return this.storage ? this.storage.data.slice() : null;
+  }
+
+  // the position in getPalette of the entry's value, cheaper than get when the palette is looked at once
+  getPaletteIndex(x: number, y: number, z: number): number {
+    return this.paletteIndex(this.index(x, y, z));
+  }
+
+  get(x: number, y: number, z: number): T {
+    return this.options.clone(this.palette[this.paletteIndex(this.index(x, y, z))]);
+  }
+
+  set(x: number, y: number, z: number, value: T) {
+    const entry = this.index(x, y, z);
+    let index = this.indices.get(this.options.key(value));
+
+    if (index === undefined) {
+      index = this.addToPalette(value);
+
+      const bits = this.bitsFor(this.palette.length);
+      if (bits > this.getBitsPerEntry()) this.resize(bits);
+    }
+
+    this.storage?.set(entry, index);
+  }
+
+  // drops values no entry uses, merges duplicates and shrinks the bits per entry to match
+  compact() {
+    const entries = new Uint32Array(this.size);
+    const remapped = new Int32Array(this.palette.length).fill(-1);
+    const palette = this.palette;
+
+    this.palette = [];
+    this.indices.clear();
+
+    for (let i = 0; i < this.size; i++) {
+      const index = this.paletteIndex(i);
+
+      if (remapped[index] < 0) {
+        const existing = this.indices.get(this.options.key(palette[index]));
+        remapped[index] = existing ?? this.addToPalette(palette[index]);
+      }
+
+      entries[i] = remapped[index];
+    }
+
+    const bits = this.bitsFor(this.palette.length);
+
+    this.storage = bits > 0 ? new PackedArray(bits, this.size, this.options.aligned) : null;
+    if (this.storage) for (let i = 0; i < this.size; i++) this.storage.set(i, entries[i]);
+  }
+}
+
+// pre-1.13 numeric ids, the 1.13 to 1.17 Palette and BlockStates keys, or the 1.18+ block_states and biomes
+export type SectionFormat = "legacy" | "flattened" | "modern";
+
+export interface ChunkSectionOptions {
+  // decides how 1.13 to 1.17 sections pack their blocks, the packing is guessed from the data length otherwise
+  dataVersion?: number;
+  // for legacy sections, defaults to rawLegacyMapping
+  legacyMapping?: LegacyBlockMapping;
+}
+
+// 20w17a, the first version that stopped packing entries across longs
+const ALIGNED_PACKING_VERSION = 2529;
+
+const SECTION_SIZE = 4096;
+
+function blockOptions(aligned: boolean, packSingle: boolean): PalettedContainerOptions<BlockState> {
+  return { edge: 16, minBits: 4, aligned, packSingle, key: blockStateKey, clone: cloneBlockState };
+}
+
+const BIOME_OPTIONS: PalettedContainerOptions<string> = {
+  edge: 4,
+  minBits: 1,
+  aligned: true,
+  packSingle: false,
+  key: (biome) => biome,
+  clone: (biome) => biome,
+};
+
+const MODERN_BLOCKS = codecs.compound({
+  palette: codecs.list(blockStateCodec),
+  data: codecs.optional(codecs.longArray),
+});
+
+const MODERN_BIOMES = codecs.compound({
+  palette: codecs.list(codecs.string),
+  data: codecs.optional(codecs.longArray),
+});
+
+const FLATTENED = codecs.compound({
+  Palette: codecs.optional(codecs.list(blockStateCodec)),
+  BlockStates: codecs.optional(codecs.longArray),
+});
+
+const LEGACY = codecs.compound({
+  Blocks: codecs.byteArray,
+  // nibble arrays, two blocks to a byte with the even one in the low bits
+  Data: codecs.byteArray,
+  Add: codecs.optional(codecs.byteArray),
+});
+
+function fail(reason: string, path: PathSegment[]): never {
+  throw new CodecError(reason, stringifyPath(path));
+}
+
+function nibble(array: Int8Array, index: number): number {
+  return (array[index >> 1] >> ((index & 1) * 4)) & 0x0f;
+}
+
+function readContainer<T>(
+  palette: T[],
+  data: BigInt64Array | null,
+  options: PalettedContainerOptions<T>,
+  path: PathSegment[],
+): PalettedContainer<T> {
+  try {
+    return new PalettedContainer(palette, data, options);
+  } catch (error) {
+    if (error instanceof CodecError || !(error instanceof Error)) throw error;
+    fail(error.message, path);
+  }
+}
+
+/*
+ * the blocks and biomes of one 16x16x16 section of a chunk. toTag writes them back in the format they were read in,
+ * every other key of the section is kept as it is
+ */
+export class ChunkSection {
+  private constructor(
+    private section: tags.CompoundTag,
+    readonly format: SectionFormat,
+    readonly blocks: PalettedContainer<BlockState>,
+    // only 1.18+ sections keep biomes, earlier versions store them for the whole chunk
+    readonly biomes: PalettedContainer<string> | null,
+    private legacyMapping: LegacyBlockMapping,
+  ) {}
+
+  static fromTag(tag: tags.Tag, options: ChunkSectionOptions = {}): ChunkSection {
+    if (!(tag instanceof tags.CompoundTag)) throw new Error(`expected a compound but got ${tag.constructor.name}`);
+
+    const mapping = options.legacyMapping ?? rawLegacyMapping;
+
+    if (tag.get("block_states") || tag.get("biomes")) {
+      const blocksTag = tag.get("block_states");
+      const biomesTag = tag.get("biomes");
+
+      const states = blocksTag ? MODERN_BLOCKS.read(blocksTag, ["block_states"]) : { palette: [AIR], data: undefined };
+      const blocks = readContainer(states.palette, states.data ?? null, blockOptions(true, false), ["block_states"]);
+
+      const biomes = biomesTag ? MODERN_BIOMES.read(biomesTag, ["biomes"]) : null;
+      const biomeContainer = biomes && readContainer(biomes.palette, biomes.data ?? null, BIOME_OPTIONS, ["biomes"]);
+
+      return new ChunkSection(tag, "modern", blocks, biomeContainer, mapping);
+    }
+
+    if (tag.get("Blocks")) {
+      const legacy = LEGACY.decode(tag);
+
+      if (legacy.Blocks.length !== SECTION_SIZE)
+        fail(`expected ${SECTION_SIZE} blocks but got ${legacy.Blocks.length}`, ["Blocks"]);
+      if (legacy.Data.length !== SECTION_SIZE / 2)
+        fail(`expected ${SECTION_SIZE / 2} bytes but got ${legacy.Data.length}`, ["Data"]);
+      if (legacy.Add && legacy.Add.length !== SECTION_SIZE / 2)
+        fail(`expected ${SECTION_SIZE / 2} bytes but got ${legacy.Add.length}`, ["Add"]);
+
+      const blocks = PalettedContainer.filled(AIR, blockOptions(true, true));
+
+      for (let i = 0; i < SECTION_SIZE; i++) {
+        const id = (legacy.Blocks[i] & 0xff) | (legacy.Add ? nibble(legacy.Add, i) << 8 : 0);
+        blocks.set(i & 15, i >> 8, (i >> 4) & 15, mapping.toState(id, nibble(legacy.Data, i)));
+      }
+
+      return new ChunkSection(tag, "legacy", blocks, null, mapping);
+    }
+
+    const flattened = FLATTENED.decode(tag);
+    const palette = flattened.Palette ?? [AIR];
+    const data = flattened.BlockStates ?? null;
+
+    let aligned = true;
+
+    if (options.dataVersion !== undefined) aligned = options.dataVersion >= ALIGNED_PACKING_VERSION;
+    else if (data) {
+      const bits = Math.max(4, bitsFor(palette.length));
+      aligned = data.length === PackedArray.longsFor(bits, SECTION_SIZE, true);
+    }
+
+    const blocks = readContainer(palette, data, blockOptions(aligned, true), ["BlockStates"]);
+    return new ChunkSection(tag, "flattened", blocks, null, mapping);
+  }
+
+  // coordinates are within the section, from 0 to 15
+  getBlock(x: number, y: number, z: number): BlockState {
+    return this.blocks.get(x, y, z);
+  }
+
+  setBlock(x: number, y: number, z: number, state: BlockState) {
+    this.blocks.set(x, y, z, state);
+  }
+
+  // biomes are stored for 4x4x4 cells, coordinates go from 0 to 3
+  getBiome(x: number, y: number, z: number): string {
+    if (!this.biomes) throw new Error(`${this.format} sections do not store biomes`);
+    return this.biomes.get(x, y, z);
+  }
+
+  setBiome(x: number, y: number, z: number, biome: string) {
+    if (!this.biomes) throw new Error(`${this.format} sections do not store biomes`);
+    this.biomes.set(x, y, z, biome);
+  }
+
+  toTag(): tags.CompoundTag {
+    const section = this.section.clone();
+
+    if (this.format === "modern") {
+      section.put(
+        "block_states",
+        writeContainer(this.blocks, (state) => blockStateCodec.encode(state)),
+      );
+      if (this.biomes)
+        section.put(
+          "biomes",
+          writeContainer(this.biomes, (biome) => new tags.StringTag(biome)),
+        );
+    } else if (this.format === "flattened") {
+      const palette = this.blocks.getPalette().map((state) => blockStateCodec.encode(state));
+
+      section.put("Palette", new tags.ListTag(palette, tags.Tags.TAG_Compound));
+      section.put("BlockStates", new tags.LongArrayTag(this.blocks.getData()!));
+    } else {
+      this.writeLegacy(section);
+    }
+
+    return section;
+  }
+
+  private writeLegacy(section: tags.CompoundTag) {
+    const ids = this.blocks.getPalette().map((state) => {
+      const legacy = this.legacyMapping.fromState(state);
+      if (!legacy) throw new Error(`${blockStateKey(state)} has no legacy id`);
+
+      return legacy;
+    });
+
+    const blocks = new Int8Array(SECTION_SIZE);
+    const data = new Int8Array(SECTION_SIZE / 2);
+    const add = new Int8Array(SECTION_SIZE / 2);
+    let hasAdd = false;
+
+    for (let i = 0; i < SECTION_SIZE; i++) {
+      const [id, value] = ids[this.blocks.getPaletteIndex(i & 15, i >> 8, (i >> 4) & 15)];
+      const shift = (i & 1) * 4;
+
+      blocks[i] = id;
+      data[i >> 1] |= (value & 0x0f) << shift;
+      add[i >> 1] |= ((id >> 8) & 0x0f) << shift;
+
+      if (id > 0xff) hasAdd = true;
+    }
+
+    section.put("Blocks", new tags.ByteArrayTag(blocks));
+    section.put("Data", new tags.ByteArrayTag(data));
+
+    if (hasAdd) section.put("Add", new tags.ByteArrayTag(add));
+    else section.delete("Add");
+  }
+}
+
+function writeContainer<T>(container: PalettedContainer<T>, write: (value: T) => tags.Tag): tags.CompoundTag {
+  const palette = container.getPalette().map(write);
+  const data = container.getData();
+
+  const items = new Map<string, tags.Tag>([["palette", new tags.ListTag(palette, palette[0].getId())]]);
+  if (data) items.set("data", new tags.LongArrayTag(data));
+
+  return new tags.CompoundTag(items);
+}
@@ -0,0 +1,394 @@
+import * as tags from "./tags";
+import * as codecs from "./codec";
+import { CodecError } from "./errors";
+import {
+  blockStateCodec,
+  blockStateKey,
+  cloneBlockState,
+  mirrorBlockState,
+  QUARTER_TURNS,
+  rotateBlockState,
+  type BlockState,
+  type Mirror,
+  type Rotation,
+} from "./block";
+import { BlockVolume, withoutKeys } from "./volume";
+
+export type Vector3 = [number, number, number];
+
+export interface StructureBlock {
+  x: number;
+  y: number;
+  z: number;
+  state: BlockState;
+  nbt: tags.CompoundTag | null;
+}
+
+export interface StructureEntity {
+  // the exact position and the block it is in, both relative to the structure
+  pos: Vector3;
+  blockPos: Vector3;
+  nbt: tags.CompoundTag;
+}
+
+interface StoredBlock {
+  x: number;
+  y: number;
+  z: number;
+  state: number;
+  nbt: tags.CompoundTag | null;
+}
+
+const STRUCTURE = codecs.compound({
+  DataVersion: codecs.optional(codecs.int),
+  size: codecs.list(codecs.int),
+  palette: codecs.optional(codecs.list(blockStateCodec)),
+  palettes: codecs.optional(codecs.list(codecs.list(blockStateCodec))),
+  blocks: codecs.list(
+    codecs.compound({ state: codecs.int, pos: codecs.list(codecs.int), nbt: codecs.optional(codecs.compoundTag) }),
+  ),
+  entities: codecs.defaulted(
+    codecs.list(
+      codecs.compound({ pos: codecs.list(codecs.double), blockPos: codecs.list(codecs.int), nbt: codecs.compoundTag }),
+    ),
+    [],
+  ),
+});
+
+function readVector(values: number[], path: string): Vector3 {
+  if (values.length !== 3) throw new CodecError(`expected 3 coordinates but got ${values.length}`, path);
+  return [values[0], values[1], values[2]];
+}
+
+const STRUCTURE_VOID = "minecraft:structure_void";
+
+function wrapDegrees(degrees: number): number {
+  const wrapped = degrees % 360;
+  return wrapped >= 180 ? wrapped - 360 : wrapped < -180 ? wrapped + 360 : wrapped;
+}
+
+/*
+ * the structure block format (.nbt). positions missing from blocks are structure voids, which leave the world as it is.
+ * files with several palettes (like shipwrecks) pick one at random when placed, they all have the same length
+ * and a block's state index points into each of them
+ */
+export class StructureTemplate {
+  private size: Vector3;
+  private palettes: BlockState[][] = [[]];
+  private blocks = new Map<number, StoredBlock>();
+  // palette keys of every state index, built when needed
+  private stateIndices: Map<string, number> | null = null;
+
+  entities: StructureEntity[] = [];
+
+  constructor(
+    size: Vector3,
+    public dataVersion?: number,
+  ) {
+    for (const length of size) {
+      if (!Number.isInteger(length) || length < 0) throw new Error(`invalid structure size ${size.join(", ")}`);
+    }
+
+    this.size = [size[0], size[1], size[2]];
+  }
+
+  static fromTag(tag: tags.Tag): StructureTemplate {
+    const value = STRUCTURE.decode(tag);
+    const structure = new StructureTemplate(readVector(value.size, "size"), value.DataVersion);
+
+    if (value.palettes) {
+      if (value.palettes.length === 0) throw new CodecError("a structure needs at least one palette", "palettes");
+
+      structure.palettes = value.palettes;
+      const length = structure.palettes[0].length;
+
+      structure.palettes.forEach((palette, index) => {
+        if (palette.length !== length)
+          throw new CodecError(
+            `has ${palette.length} states but the first palette has ${length}`,
+            `palettes[${index}]`,
+          );
+      });
+    } else {
+      structure.palettes = [value.palette ?? []];
+    }
+
+    value.blocks.forEach((block, index) => {
+      const [x, y, z] = readVector(block.pos, `blocks[${index}].pos`);
+
+      if (!structure.contains(x, y, z))
+        throw new CodecError(`${x}, ${y}, ${z} is outside of the structure`, `blocks[${index}].pos`);
+      if (block.state < 0 || block.state >= structure.palettes[0].length)
+        throw new CodecError(`state ${block.state} is not in the palette`, `blocks[${index}].state`);
+
+      structure.blocks.set(structure.index(x, y, z), { x, y, z, state: block.state, nbt: block.nbt ?? null });
+    });
+
+    structure.entities = value.entities.map((entity, index) => ({
+      pos: readVector(entity.pos, `entities[${index}].pos`),
+      blockPos: readVector(entity.blockPos, `entities[${index}].blockPos`),
+      nbt: entity.nbt,
+    }));
+
+    return structure;
+  }
+
+  // structure_void blocks in the volume become structure voids
+  static fromVolume(volume: BlockVolume): StructureTemplate {
+    const structure = new StructureTemplate(volume.getSize(), volume.dataVersion);
+    const palette = volume.getPalette();
+    const data = volume.getData();
+    const [width, , length] = structure.size;
+
+    const states = palette.map((state) => (state.name === STRUCTURE_VOID ? -1 : structure.stateIndex(state)));
+
+    for (let index = 0; index < data.length; index++) {
+      const state = states[data[index]];
+      if (state < 0) continue;
+
+      const x = index % width;
+      const y = Math.floor(index / (width * length));
+      const z = Math.floor(index / width) % length;
+
+      structure.blocks.set(index, { x, y, z, state, nbt: volume.getBlockEntity(x, y, z) });
+    }
+
+    structure.entities = volume.entities.map((entity) => ({
+      pos: [...entity.pos],
+      blockPos: entity.pos.map(Math.floor) as Vector3,
+      nbt: entity.nbt,
+    }));
+
+    return structure;
+  }
+
+  toVolume(palette: number = 0): BlockVolume {
+    const volume = new BlockVolume(this.size, this.dataVersion);
+    const [width, height, length] = this.size;
+
+    for (let y = 0; y < height; y++) {
+      for (let z = 0; z < length; z++) {
+        for (let x = 0; x < width; x++) volume.setBlock(x, y, z, { name: STRUCTURE_VOID, properties: {} });
+      }
+    }
+
+    for (const block of this.listBlocks(palette)) volume.setBlock(block.x, block.y, block.z, block.state, block.nbt);
+
+    // the game replaces Pos when placing entities, in a volume pos is all there is
+    volume.entities = this.entities.map((entity) => ({ pos: [...entity.pos], nbt: withoutKeys(entity.nbt, ["Pos"]) }));
+    volume.compactPalette();
+
+    return volume;
+  }
+
+  toTag(): tags.CompoundTag {
+    const blocks = Array.from(this.blocks.keys())
+      .sort((a, b) => a - b)
+      .map((index) => {
+        const block = this.blocks.get(index)!;
+        const pos = [block.x, block.y, block.z];
+
+        return block.nbt ? { state: block.state, pos, nbt: block.nbt } : { state: block.state, pos };
+      });
+
+    return STRUCTURE.encode({
+      DataVersion: this.dataVersion,
+      size: [...this.size],
+      ...(this.palettes.length === 1 ? { palette: this.palettes[0] } : { palettes: this.palettes }),
+      blocks,
+      entities: this.entities.map((entity) => ({
+        pos: [...entity.pos],
+        blockPos: [...entity.blockPos],
+        nbt: entity.nbt,
+      })),
+    }) as tags.CompoundTag;
+  }
+
+  getSize(): Vector3 {
+    return [...this.size];
+  }
+
+  getPaletteCount(): number {
+    return this.palettes.length;
+  }
+
+  getPalette(palette: number = 0): BlockState[] {
+    return this.selectPalette(palette).map(cloneBlockState);
+  }
+
+  contains(x: number, y: number, z: number): boolean {
+    return (
+      Number.isInteger(x) &&
+      Number.isInteger(y) &&
+      Number.isInteger(z) &&
+      x >= 0 &&
+      y >= 0 &&
+      z >= 0 &&
+      x < this.size[0] &&
+      y < this.size[1] &&
+      z < this.size[2]
+    );
+  }
+
+  // blocks are ordered by y, then z, then x
+  private index(x: number, y: number, z: number): number {
+    return (y * this.size[2] + z) * this.size[0] + x;
+  }
+
+  private checkPosition(x: number, y: number, z: number) {
+    if (!this.contains(x, y, z)) throw new Error(`${x}, ${y}, ${z} is outside of the structure`);
+  }
+
+  private selectPalette(palette: number): BlockState[] {
+    if (!this.palettes[palette]) throw new Error(`palette ${palette} does not exist`);
+    return this.palettes[palette];
+  }
+
+  // the state index holding the state in every palette, added to them all when missing
+  private stateIndex(state: BlockState): number {
+    if (!this.stateIndices) {
+      this.stateIndices = new Map();
+
+      for (let i = this.palettes[0].length - 1; i >= 0; i--) {
+        this.stateIndices.set(this.palettes.map((palette) => blockStateKey(palette[i])).join(" "), i);
+      }
+    }
+
+    const key = this.palettes.map(() => blockStateKey(state)).join(" ");
+    let index = this.stateIndices.get(key);
+
+    if (index === undefined) {
+      index = this.palettes[0].length;
+
+      for (const palette of this.palettes) palette.push(cloneBlockState(state));
+      this.stateIndices.set(key, index);
+    }
+
+    return index;
+  }
+
+  // null for structure voids
+  getBlock(x: number, y: number, z: number, palette: number = 0): BlockState | null {
+    this.checkPosition(x, y, z);
+
+    const block = this.blocks.get(this.index(x, y, z));
+    return block ? cloneBlockState(this.selectPalette(palette)[block.state]) : null;
+  }
+
+  getBlockEntity(x: number, y: number, z: number): tags.CompoundTag | null {
+    this.checkPosition(x, y, z);
+    return this.blocks.get(this.index(x, y, z))?.nbt ?? null;
+  }
+
+  // a null state turns the position into a structure void, the block entity data is replaced along with the block
+  setBlock(x: number, y: number, z: number, state: BlockState | null, nbt: tags.CompoundTag | null = null) {
+    this.checkPosition(x, y, z);
+
+    const index = this.index(x, y, z);
+
+    if (state) this.blocks.set(index, { x, y, z, state: this.stateIndex(state), nbt });
+    else this.blocks.delete(index);
+  }
+
+  *listBlocks(palette: number = 0): IterableIterator<StructureBlock> {
+    const states = this.selectPalette(palette);
+
+    for (const index of Array.from(this.blocks.keys()).sort((a, b) => a - b)) {
+      const block = this.blocks.get(index)!;
+      yield { x: block.x, y: block.y, z: block.z, state: cloneBlockState(states[block.state]), nbt: block.nbt };
+    }
+  }
+
+  // drops states no block uses and merges duplicates, the files the game writes never have either
+  compactPalette() {
+    const used = new Set<number>();
+    for (const block of this.blocks.values()) used.add(block.state);
+
+    const remapped = new Map<number, number>();
+    const keys = new Map<string, number>();
+    const palettes: BlockState[][] = this.palettes.map(() => []);
+
+    for (let i = 0; i < this.palettes[0].length; i++) {
+      if (!used.has(i)) continue;
+
+      const key = this.palettes.map((palette) => blockStateKey(palette[i])).join(" ");
+      let index = keys.get(key);
+
+      if (index === undefined) {
+        index = palettes[0].length;
+        keys.set(key, index);
+        this.palettes.forEach((palette, n) => palettes[n].push(palette[i]));
+      }
+
+      remapped.set(i, index);
+    }
+
+    for (const block of this.blocks.values()) block.state = remapped.get(block.state)!;
+
+    this.palettes = palettes;
+    this.stateIndices = null;
+  }
+
+  // moves every block with the transform, which maps positions from the old size to the new one
+  private transform(
+    size: Vector3,
+    move: (x: number, z: number, width: number, length: number) => [number, number],
+    transformState: (state: BlockState) => BlockState,
+    transformYaw: (yaw: number) => number,
+  ) {
+    const [width, , length] = this.size;
+    const blocks = Array.from(this.blocks.values());
+
+    this.size = size;
+    this.blocks = new Map();
+
+    for (const block of blocks) {
+      [block.x, block.z] = move(block.x, block.z, width - 1, length - 1);
+      this.blocks.set(this.index(block.x, block.y, block.z), block);
+    }
+
+    this.palettes = this.palettes.map((palette) => palette.map(transformState));
+    this.stateIndices = null;
+
+    // other position keys in the entity data are left alone, the game places entities at pos
+    for (const entity of this.entities) {
+      [entity.pos[0], entity.pos[2]] = move(entity.pos[0], entity.pos[2], width, length);
+      [entity.blockPos[0], entity.blockPos[2]] = move(entity.blockPos[0], entity.blockPos[2], width - 1, length - 1);
+
+      const rotation = entity.nbt.get("Rotation");
+
+      if (rotation instanceof tags.ListTag && rotation.size() > 0 && rotation.get(0) instanceof tags.FloatTag) {
+        const yaw = (rotation.get(0) as tags.FloatTag).getValue();
+        rotation.set(0, new tags.FloatTag(Math.fround(wrapDegrees(transformYaw(wrapDegrees(yaw))))));
+      }
+    }
+  }
+
+  // turns the structure around its vertical axis, clockwise when looking down
+  rotate(rotation: Rotation) {
+    const turns = QUARTER_TURNS[rotation];
+    if (turns === 0) return;
+
+    const [width, height, length] = this.size;
+    const size: Vector3 = turns === 2 ? [width, height, length] : [length, height, width];
+
+    this.transform(
+      size,
+      (x, z, maxX, maxZ) => (turns === 1 ? [maxZ - z, x] : turns === 2 ? [maxX - x, maxZ - z] : [z, maxX - x]),
+      (state) => rotateBlockState(state, rotation),
+      (yaw) => yaw + turns * 90,
+    );
+  }
+
+  // left_right flips the structure along the z axis and front_back along the x axis
+  mirror(mirror: Mirror) {
+    if (mirror === "none") return;
+
+    this.transform(
+      this.getSize(),
+      (x, z, maxX, maxZ) => (mirror === "left_right" ? [x, maxZ - z] : [maxX - x, z]),
+      (state) => mirrorBlockState(state, mirror),
+      (yaw) => (mirror === "left_right" ? 180 - yaw : -yaw),
+    );
+  }
+}
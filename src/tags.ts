@@ -1,5 +1,89 @@
 import { stringifyTextEscaped, VALID_QUOTELESS_KEY_RE, VALID_QUOTELESS_STRING_RE } from "./util";
 
+export interface StringifyOptions {
+  // spaces per nesting level, 0 keeps everything on a single line
+  indent?: number;
+  // collections that don't fit in this width are broken over multiple lines when indenting
+  maxLineWidth?: number;
+  // one array element per line instead of filling each line up to the max width
+  expandArrays?: boolean;
+  sortKeys?: boolean;
+  quote?: "double" | "single";
+  forceQuotes?: boolean;
+}
+
+export interface EqualsOptions {
+  // compounds with the same entries in a different order are equal unless this is set
+  compareKeyOrder?: boolean;
+  // by default NaN equals NaN and 0 differs from -0 like in java, false compares floats with ===
+  nanEqualsNaN?: boolean;
+}
+
+const DEFAULT_MAX_LINE_WIDTH = 80;
+
+const hashView = new DataView(new ArrayBuffer(8));
+
+function mixHash(hash: number, value: number): number {
+  hash = Math.imul(hash ^ value, 0x5bd1e995);
+  return (hash ^ (hash >>> 15)) >>> 0;
+}
+
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+
+  return hash >>> 0;
+}
+
+function hashLong(hash: number, value: bigint): number {
+  return mixHash(mixHash(hash, Number(BigInt.asIntN(32, value))), Number(BigInt.asIntN(32, value >> 32n)));
+}
+
+function floatsEqual(a: number, b: number, options: EqualsOptions): boolean {
+  return options.nanEqualsNaN === false ? a === b : Object.is(a, b);
+}
+
+function stringifyText(text: string, quotelessRegex: RegExp, options: StringifyOptions): string {
+  return stringifyTextEscaped(text, quotelessRegex, options.quote === "single" ? "'" : '"', options.forceQuotes);
+}
+
+function stringifyCollection(
+  open: string,
+  close: string,
+  items: string[],
+  options: StringifyOptions,
+  depth: number,
+  fillLines: boolean = false,
+): string {
+  const indent = options.indent ?? 0;
+  const inline = `${open}${open.length > 1 && items.length > 0 ? " " : ""}${items.join(", ")}${close}`;
+
+  if (indent <= 0 || items.length === 0) return inline;
+
+  const maxLineWidth = options.maxLineWidth ?? DEFAULT_MAX_LINE_WIDTH;
+  if (depth * indent + inline.length <= maxLineWidth && !inline.includes("\n")) return inline;
+
+  const innerIndent = " ".repeat((depth + 1) * indent);
+  const outerIndent = " ".repeat(depth * indent);
+
+  if (!fillLines) return `${open}\n${items.map((item) => innerIndent + item).join(",\n")}\n${outerIndent}${close}`;
+
+  const lines: string[] = [];
+  let line = "";
+
+  for (const item of items) {
+    if (line && innerIndent.length + line.length + item.length + 3 > maxLineWidth) {
+      lines.push(`${line},`);
+      line = item;
+    } else {
+      line = line ? `${line}, ${item}` : item;
+    }
+  }
+
+  lines.push(line);
+  return `${open}\n${lines.map((line) => innerIndent + line).join("\n")}\n${outerIndent}${close}`;
+}
+
 export const enum Tags {
   TAG_End = 0x00,
   TAG_Byte = 0x01,
@@ -16,9 +100,63 @@ export const enum Tags {
   TAG_Long_Array = 0x0c,
 }
 
+const TAG_NAMES: Record<Tags, string> = {
+  [Tags.TAG_End]: "TAG_End",
+  [Tags.TAG_Byte]: "TAG_Byte",
+  [Tags.TAG_Short]: "TAG_Short",
+  [Tags.TAG_Int]: "TAG_Int",
+  [Tags.TAG_Long]: "TAG_Long",
+  [Tags.TAG_Float]: "TAG_Float",
+  [Tags.TAG_Double]: "TAG_Double",
+  [Tags.TAG_Byte_Array]: "TAG_Byte_Array",
+  [Tags.TAG_String]: "TAG_String",
+  [Tags.TAG_List]: "TAG_List",
+  [Tags.TAG_Compound]: "TAG_Compound",
+  [Tags.TAG_Int_Array]: "TAG_Int_Array",
+  [Tags.TAG_Long_Array]: "TAG_Long_Array",
+};
+
 export abstract class Tag {
-  abstract stringify(): string;
+  private frozen: boolean = false;
+  private cachedHash: number | null = null;
+
+  // depth is the nesting level of the tag, used for indentation
+  abstract stringify(options?: StringifyOptions, depth?: number): string;
   abstract getId(): Tags;
+  abstract equals(other: Tag, options?: EqualsOptions): boolean;
+  // a deep copy, never frozen
+  abstract clone(): Tag;
+
+  protected abstract computeHash(): number;
+
+  // stable across runs and independent of compound key order, equal tags have equal hashes
+  hash(): number {
+    if (this.cachedHash !== null) return this.cachedHash;
+
+    const hash = this.computeHash();
+    if (this.frozen) this.cachedHash = hash;
+
+    return hash;
+  }
+
+  // makes the tag and everything inside it immutable, use clone() first to keep a mutable tree
+  freeze(): this {
+    this.frozen = true;
+    return this;
+  }
+
+  isFrozen(): boolean {
+    return this.frozen;
+  }
+
+  protected assertMutable() {
+    if (this.frozen) throw new Error("cannot modify a frozen tag");
+  }
+}
+
+export interface NamedTag {
+  name: string;
+  tag: Tag;
 }
 
 export abstract class LiteralTag<T> extends Tag {
@@ -29,6 +167,28 @@ export abstract class LiteralTag<T> extends Tag {
   getValue(): T {
     return this.value;
   }
+
+  equals(other: Tag, options: EqualsOptions = {}): boolean {
+    if (other.getId() !== this.getId()) return false;
+
+    const value = (other as LiteralTag<T>).value;
+    if (typeof value === "number" && typeof this.value === "number") return floatsEqual(this.value, value, options);
+
+    return this.value === value;
+  }
+
+  clone(): this {
+    return new (this.constructor as new (value: T) => this)(this.value);
+  }
+
+  protected computeHash(): number {
+    if (typeof this.value === "bigint") return hashLong(this.getId(), this.value);
+    if (typeof this.value === "string") return mixHash(this.getId(), hashString(this.value));
+
+    // floats are hashed by their bits so NaN and -0 behave like in equals
+    hashView.setFloat64(0, Number.isNaN(this.value) ? NaN : (this.value as number));
+    return mixHash(mixHash(this.getId(), hashView.getInt32(0)), hashView.getInt32(4));
+  }
 }
 
 export class ByteTag extends LiteralTag<number> {
@@ -92,8 +252,8 @@ export class DoubleTag extends LiteralTag<number> {
 }
 
 export class StringTag extends LiteralTag<string> {
-  stringify(): string {
-    return stringifyTextEscaped(this.value, VALID_QUOTELESS_STRING_RE);
+  stringify(options: StringifyOptions = {}): string {
+    return stringifyText(this.value, VALID_QUOTELESS_STRING_RE, options);
   }
 
   getId(): Tags {
@@ -117,10 +277,12 @@ export class CompoundTag extends Tag {
   }
 
   delete(name: string) {
+    this.assertMutable();
     this.items.delete(name);
   }
 
   put(name: string, tag: Tag) {
+    this.assertMutable();
     this.items.set(name, tag);
   }
 
@@ -128,15 +290,49 @@ export class CompoundTag extends Tag {
     return Array.from(this.items.keys());
   }
 
-  stringify(): string {
-    let stringified = "{";
+  stringify(options: StringifyOptions = {}, depth: number = 0): string {
+    const keys = this.list();
+    if (options.sortKeys) keys.sort();
+
+    const items = keys.map(
+      (key) =>
+        `${stringifyText(key, VALID_QUOTELESS_KEY_RE, options)}: ${this.items.get(key)!.stringify(options, depth + 1)}`,
+    );
+
+    return stringifyCollection("{", "}", items, options, depth);
+  }
+
+  equals(other: Tag, options: EqualsOptions = {}): boolean {
+    if (!(other instanceof CompoundTag) || other.items.size !== this.items.size) return false;
+
+    if (options.compareKeyOrder) {
+      const keys = other.list();
+      if (this.list().some((key, index) => keys[index] !== key)) return false;
+    }
 
     for (const [key, value] of this.items) {
-      if (stringified.length > 1) stringified += ", ";
-      stringified += `${stringifyTextEscaped(key, VALID_QUOTELESS_KEY_RE)}: ${value.stringify()}`;
+      const otherValue = other.items.get(key);
+      if (!otherValue || !value.equals(otherValue, options)) return false;
     }
 
-    return stringified + "}";
+    return true;
+  }
+
+  clone(): CompoundTag {
+    return new CompoundTag(new Map(Array.from(this.items, ([key, value]) => [key, value.clone()])));
+  }
+
+  protected computeHash(): number {
+    // entries are summed so the order does not matter
+    let sum = 0;
+    for (const [key, value] of this.items) sum = (sum + mixHash(hashString(key), value.hash())) >>> 0;
+
+    return mixHash(Tags.TAG_Compound, sum);
+  }
+
+  freeze(): this {
+    for (const value of this.items.values()) value.freeze();
+    return super.freeze();
   }
 
   getId(): Tags {
@@ -144,71 +340,288 @@ export class CompoundTag extends Tag {
   }
 }
 
-export class ListTag extends Tag {
-  constructor(private items: Tag[]) {
+export class ListTag<T extends Tag = Tag> extends Tag {
+  private elementType: Tags;
+
+  // the element type is taken from the first item when not given, empty lists without one are TAG_End lists
+  constructor(
+    private items: T[] = [],
+    elementType?: Tags,
+  ) {
     super();
+
+    this.elementType = elementType ?? items[0]?.getId() ?? Tags.TAG_End;
+    if (this.elementType === Tags.TAG_End && items.length > 0) throw new Error("a list of TAG_End cannot have items");
+
+    this.checkElements(items);
   }
 
-  stringify(): string {
-    return `[${this.items.map((item) => item.stringify()).join(", ")}]`;
+  private checkElements(items: Tag[], elementType: Tags = this.elementType) {
+    for (const item of items) {
+      if (item.getId() !== elementType)
+        throw new Error(`cannot add a ${TAG_NAMES[item.getId()]} to a list of ${TAG_NAMES[elementType]}`);
+    }
+  }
+
+  private checkIndex(index: number, end: number = this.items.length - 1) {
+    if (!Number.isInteger(index) || index < 0 || index > end) throw new Error(`index ${index} is out of bounds`);
   }
 
-  getValues() {
+  stringify(options: StringifyOptions = {}, depth: number = 0): string {
+    const items = this.items.map((item) => item.stringify(options, depth + 1));
+    return stringifyCollection("[", "]", items, options, depth);
+  }
+
+  getElementType(): Tags {
+    return this.elementType;
+  }
+
+  // only empty lists can change their element type
+  setElementType(elementType: Tags) {
+    this.assertMutable();
+    if (this.items.length > 0 && elementType !== this.elementType)
+      throw new Error("cannot change the element type of a list that has items");
+
+    this.elementType = elementType;
+  }
+
+  // whether the tag can be added, a TAG_End list accepts anything and takes on its type
+  accepts(tag: Tag): boolean {
+    return this.elementType === Tags.TAG_End || tag.getId() === this.elementType;
+  }
+
+  getValues(): readonly T[] {
     return this.items;
   }
 
+  size(): number {
+    return this.items.length;
+  }
+
+  get(index: number): T {
+    this.checkIndex(index);
+    return this.items[index];
+  }
+
+  set(index: number, tag: T) {
+    this.assertMutable();
+    this.checkIndex(index);
+    this.checkElements([tag]);
+
+    this.items[index] = tag;
+  }
+
+  // returns the new size
+  push(...tags: T[]): number {
+    this.splice(this.items.length, 0, ...tags);
+    return this.items.length;
+  }
+
+  insert(index: number, ...tags: T[]) {
+    this.splice(index, 0, ...tags);
+  }
+
+  remove(index: number): T {
+    this.checkIndex(index);
+    return this.splice(index, 1)[0];
+  }
+
+  // like Array.prototype.splice, but start has to be within the list
+  splice(start: number, deleteCount: number = this.items.length - start, ...tags: T[]): T[] {
+    this.assertMutable();
+    this.checkIndex(start, this.items.length);
+
+    // an empty list only takes the type of the new tags once they all have it
+    const elementType = this.elementType === Tags.TAG_End && tags.length > 0 ? tags[0].getId() : this.elementType;
+    this.checkElements(tags, elementType);
+
+    this.elementType = elementType;
+    return this.items.splice(start, deleteCount, ...tags);
+  }
+
+  equals(other: Tag, options: EqualsOptions = {}): boolean {
+    if (!(other instanceof ListTag) || other.elementType !== this.elementType) return false;
+    if (other.items.length !== this.items.length) return false;
+
+    return this.items.every((item, index) => item.equals(other.items[index], options));
+  }
+
+  clone(): ListTag<T> {
+    return new ListTag(
+      this.items.map((item) => item.clone() as T),
+      this.elementType,
+    );
+  }
+
+  protected computeHash(): number {
+    return this.items.reduce((hash, item) => mixHash(hash, item.hash()), mixHash(Tags.TAG_List, this.elementType));
+  }
+
+  freeze(): this {
+    for (const item of this.items) item.freeze();
+    // the array may still belong to whoever built the list, so a copy is frozen
+    this.items = Object.freeze(this.items.slice()) as T[];
+
+    return super.freeze();
+  }
+
   getId(): Tags {
     return Tags.TAG_List;
   }
 }
 
-export class ByteArrayTag extends Tag {
-  constructor(private items: number[]) {
+export abstract class ArrayTag<T extends Int8Array | Int32Array | BigInt64Array> extends Tag {
+  constructor(protected items: T) {
     super();
   }
 
-  stringify(): string {
-    return `[B; ${this.items.map((item) => `${item}b`).join(", ")}]`;
+  // the backing typed array, changes to it are reflected in the tag. frozen tags return a copy
+  getValues(): T {
+    return this.isFrozen() ? (this.items.slice() as T) : this.items;
   }
 
-  getValues() {
-    return this.items;
+  size(): number {
+    return this.items.length;
   }
 
-  getId(): Tags {
-    return Tags.TAG_Byte_Array;
+  get(index: number): T[number] {
+    if (index < 0 || index >= this.items.length) throw new Error(`index ${index} is out of bounds`);
+    return this.items[index];
   }
-}
 
-export class IntArrayTag extends Tag {
-  constructor(private items: number[]) {
-    super();
+  // values that don't fit the element type are rejected instead of wrapping around
+  private checkValues(values: ArrayLike<T[number]>) {
+    const probe = new (this.items.constructor as new (length: number) => T)(1);
+
+    for (let i = 0; i < values.length; i++) {
+      let fits = false;
+
+      try {
+        probe[0] = values[i];
+        fits = probe[0] === values[i];
+      } catch {}
+
+      if (!fits) throw new Error(`${values[i]} does not fit in a ${TAG_NAMES[this.getId()]}`);
+    }
   }
 
-  stringify(): string {
-    return `[I; ${this.items.map((item) => `${item}`).join(", ")}]`;
+  set(index: number, value: T[number]) {
+    this.assertMutable();
+    if (index < 0 || index >= this.items.length) throw new Error(`index ${index} is out of bounds`);
+
+    this.checkValues([value]);
+    this.items[index] = value;
   }
 
-  getValues() {
-    return this.items;
+  setValues(values: ArrayLike<T[number]>, offset: number = 0) {
+    this.assertMutable();
+    if (offset < 0 || offset + values.length > this.items.length)
+      throw new Error(`cannot set ${values.length} values at offset ${offset}`);
+
+    this.checkValues(values);
+    // @ts-expect-error
+    this.items.set(values, offset);
+  }
+
+  // returns the new size
+  push(...values: T[number][]): number {
+    this.splice(this.items.length, 0, ...values);
+    return this.items.length;
+  }
+
+  insert(index: number, ...values: T[number][]) {
+    this.splice(index, 0, ...values);
+  }
+
+  remove(index: number): T[number] {
+    if (index < 0 || index >= this.items.length) throw new Error(`index ${index} is out of bounds`);
+    return this.splice(index, 1)[0];
+  }
+
+  // changing the size replaces the backing typed array, arrays from earlier getValues() calls are left as they were
+  splice(start: number, deleteCount: number = this.items.length - start, ...values: T[number][]): T {
+    this.assertMutable();
+    if (start < 0 || start > this.items.length) throw new Error(`index ${start} is out of bounds`);
+
+    this.checkValues(values);
+    deleteCount = Math.max(0, Math.min(deleteCount, this.items.length - start));
+
+    const removed = this.items.slice(start, start + deleteCount) as T;
+    const items = new (this.items.constructor as new (length: number) => T)(
+      this.items.length - deleteCount + values.length,
+    );
+
+    // @ts-expect-error
+    items.set(this.items.subarray(0, start));
+    // @ts-expect-error
+    items.set(values, start);
+    // @ts-expect-error
+    items.set(this.items.subarray(start + deleteCount), start + values.length);
+
+    this.items = items;
+    return removed;
+  }
+
+  equals(other: Tag): boolean {
+    if (other.getId() !== this.getId()) return false;
+
+    const items = (other as ArrayTag<T>).items;
+    return items.length === this.items.length && this.items.every((item, index) => item === items[index]);
+  }
+
+  clone(): this {
+    return new (this.constructor as new (items: T) => this)(this.items.slice() as T);
+  }
+
+  protected computeHash(): number {
+    let hash: number = this.getId();
+
+    for (const item of this.items) {
+      hash = typeof item === "bigint" ? hashLong(hash, item) : mixHash(hash, item);
+    }
+
+    return hash;
+  }
+}
+
+export class ByteArrayTag extends ArrayTag<Int8Array> {
+  constructor(items: Int8Array | ArrayLike<number>) {
+    super(items instanceof Int8Array ? items : Int8Array.from(items));
+  }
+
+  stringify(options: StringifyOptions = {}, depth: number = 0): string {
+    const items = Array.from(this.items, (item) => `${item}b`);
+    return stringifyCollection("[B;", "]", items, options, depth, !options.expandArrays);
   }
 
   getId(): Tags {
-    return Tags.TAG_Int_Array;
+    return Tags.TAG_Byte_Array;
   }
 }
 
-export class LongArrayTag extends Tag {
-  constructor(private items: bigint[]) {
-    super();
+export class IntArrayTag extends ArrayTag<Int32Array> {
+  constructor(items: Int32Array | ArrayLike<number>) {
+    super(items instanceof Int32Array ? items : Int32Array.from(items));
   }
 
-  stringify(): string {
-    return `[L; ${this.items.map((item) => `${item}l`).join(", ")}]`;
+  stringify(options: StringifyOptions = {}, depth: number = 0): string {
+    const items = Array.from(this.items, (item) => `${item}`);
+    return stringifyCollection("[I;", "]", items, options, depth, !options.expandArrays);
   }
 
-  getValues() {
-    return this.items;
+  getId(): Tags {
+    return Tags.TAG_Int_Array;
+  }
+}
+
+export class LongArrayTag extends ArrayTag<BigInt64Array> {
+  constructor(items: BigInt64Array | ArrayLike<bigint>) {
+    super(items instanceof BigInt64Array ? items : BigInt64Array.from(items));
+  }
+
+  stringify(options: StringifyOptions = {}, depth: number = 0): string {
+    const items = Array.from(this.items, (item) => `${item}l`);
+    return stringifyCollection("[L;", "]", items, options, depth, !options.expandArrays);
   }
 
   getId(): Tags {
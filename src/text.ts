@@ -0,0 +1,487 @@
+import * as tags from "./tags";
+import { CodecError } from "./errors";
+import { fromValue, type SimpleValue } from "./value";
+import { describeValue, stringifyPath, type PathSegment } from "./util";
+
+export interface ClickEvent {
+  action: string;
+  value: string;
+}
+
+// item and entity tooltips are kept the way they were stored, they are items and entities rather than text
+export type HoverEvent =
+  | { action: "show_text"; contents: TextComponent }
+  | { action: "show_item" | "show_entity"; contents: SimpleValue | boolean };
+
+export interface TextStyle {
+  // a named color or #rrggbb
+  color?: string;
+  bold?: boolean;
+  italic?: boolean;
+  underlined?: boolean;
+  strikethrough?: boolean;
+  obfuscated?: boolean;
+  font?: string;
+  insertion?: string;
+  clickEvent?: ClickEvent;
+  hoverEvent?: HoverEvent;
+}
+
+interface TextBase extends TextStyle {
+  // children inherit the style of their parent
+  extra?: TextComponent[];
+}
+
+export interface LiteralText extends TextBase {
+  text: string;
+}
+
+export interface TranslatedText extends TextBase {
+  translate: string;
+  fallback?: string;
+  with?: TextComponent[];
+}
+
+export interface ScoreText extends TextBase {
+  score: { name: string; objective: string };
+}
+
+export interface SelectorText extends TextBase {
+  selector: string;
+  separator?: TextComponent;
+}
+
+export interface KeybindText extends TextBase {
+  keybind: string;
+}
+
+export interface NBTText extends TextBase {
+  nbt: string;
+  interpret?: boolean;
+  separator?: TextComponent;
+  block?: string;
+  entity?: string;
+  storage?: string;
+}
+
+export type TextComponent = LiteralText | TranslatedText | ScoreText | SelectorText | KeybindText | NBTText;
+
+export interface TextRenderOptions {
+  // translation keys to format strings, translated components without one show their fallback or key
+  translations?: Record<string, string>;
+}
+
+// the named colors with their legacy formatting code and rgb value
+const COLORS: Record<string, [string, number]> = {
+  black: ["0", 0x000000],
+  dark_blue: ["1", 0x0000aa],
+  dark_green: ["2", 0x00aa00],
+  dark_aqua: ["3", 0x00aaaa],
+  dark_red: ["4", 0xaa0000],
+  dark_purple: ["5", 0xaa00aa],
+  gold: ["6", 0xffaa00],
+  gray: ["7", 0xaaaaaa],
+  dark_gray: ["8", 0x555555],
+  blue: ["9", 0x5555ff],
+  green: ["a", 0x55ff55],
+  aqua: ["b", 0x55ffff],
+  red: ["c", 0xff5555],
+  light_purple: ["d", 0xff55ff],
+  yellow: ["e", 0xffff55],
+  white: ["f", 0xffffff],
+};
+
+const FORMATS = [
+  ["obfuscated", "k"],
+  ["bold", "l"],
+  ["strikethrough", "m"],
+  ["underlined", "n"],
+  ["italic", "o"],
+] as const;
+
+// the content types in the order the game checks for them when a component has no type
+const CONTENT_TYPES = [
+  ["text", "text"],
+  ["translatable", "translate"],
+  ["score", "score"],
+  ["selector", "selector"],
+  ["keybind", "keybind"],
+  ["nbt", "nbt"],
+] as const;
+
+const HEX_COLOR_RE = /^#[0-9a-fA-F]{6}$/;
+
+function fail(reason: string, path: PathSegment[]): never {
+  throw new CodecError(reason, stringifyPath(path));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && !ArrayBuffer.isView(value);
+}
+
+function readString(value: unknown, path: PathSegment[]): string {
+  if (typeof value !== "string") fail(`expected a string but got ${describeValue(value)}`, path);
+  return value;
+}
+
+// nbt has no booleans, bytes stand in for them
+function readBoolean(value: unknown, path: PathSegment[]): boolean {
+  if (typeof value === "boolean") return value;
+  if (typeof value === "number" || typeof value === "bigint") return Number(value) !== 0;
+
+  fail(`expected a boolean but got ${describeValue(value)}`, path);
+}
+
+function readComponents(value: unknown, path: PathSegment[]): TextComponent[] {
+  if (!Array.isArray(value)) fail(`expected a list of text components but got ${describeValue(value)}`, path);
+  return value.map((item, index) => readComponent(item, [...path, index]));
+}
+
+function readHoverEvent(value: unknown, path: PathSegment[]): HoverEvent {
+  if (!isObject(value)) fail(`expected an object but got ${describeValue(value)}`, path);
+
+  const action = readString(value.action, [...path, "action"]);
+  // before 1.16 the tooltip was in value rather than contents
+  const key = "contents" in value ? "contents" : "value";
+
+  if (action === "show_text") return { action, contents: readComponent(value[key], [...path, key]) };
+  if (action === "show_item" || action === "show_entity") {
+    if (value[key] === undefined) fail("is missing", [...path, key]);
+    return { action, contents: value[key] as SimpleValue };
+  }
+
+  fail(`unknown hover event action '${action}'`, [...path, "action"]);
+}
+
+function readStyle(value: Record<string, unknown>, path: PathSegment[]): TextStyle {
+  const style: TextStyle = {};
+
+  if (value.color !== undefined) {
+    const color = readString(value.color, [...path, "color"]);
+    if (!Object.hasOwn(COLORS, color) && !HEX_COLOR_RE.test(color))
+      fail(`unknown color '${color}'`, [...path, "color"]);
+
+    style.color = color;
+  }
+
+  for (const [format] of FORMATS) {
+    if (value[format] !== undefined) style[format] = readBoolean(value[format], [...path, format]);
+  }
+
+  if (value.font !== undefined) style.font = readString(value.font, [...path, "font"]);
+  if (value.insertion !== undefined) style.insertion = readString(value.insertion, [...path, "insertion"]);
+
+  if (value.clickEvent !== undefined) {
+    const event = value.clickEvent;
+    if (!isObject(event)) fail(`expected an object but got ${describeValue(event)}`, [...path, "clickEvent"]);
+
+    style.clickEvent = {
+      action: readString(event.action, [...path, "clickEvent", "action"]),
+      value: readString(event.value, [...path, "clickEvent", "value"]),
+    };
+  }
+
+  if (value.hoverEvent !== undefined) style.hoverEvent = readHoverEvent(value.hoverEvent, [...path, "hoverEvent"]);
+  return style;
+}
+
+function readContent(value: Record<string, unknown>, path: PathSegment[]): TextComponent {
+  const type = value.type === undefined ? undefined : readString(value.type, [...path, "type"]);
+  const content = CONTENT_TYPES.find(([name, key]) => (type === undefined ? value[key] !== undefined : type === name));
+
+  if (!content) {
+    if (type !== undefined) fail(`unknown text component type '${type}'`, [...path, "type"]);
+    fail("has none of text, translate, score, selector, keybind or nbt", path);
+  }
+
+  const key = content[1];
+
+  switch (key) {
+    case "text":
+      // the game accepts numbers and booleans as text
+      if (["number", "bigint", "boolean"].includes(typeof value.text)) return { text: String(value.text) };
+      return { text: readString(value.text, [...path, "text"]) };
+
+    case "translate": {
+      const component: TranslatedText = { translate: readString(value.translate, [...path, "translate"]) };
+
+      if (value.fallback !== undefined) component.fallback = readString(value.fallback, [...path, "fallback"]);
+      if (value.with !== undefined) component.with = readComponents(value.with, [...path, "with"]);
+      return component;
+    }
+
+    case "score": {
+      const score = value.score;
+      if (!isObject(score)) fail(`expected an object but got ${describeValue(score)}`, [...path, "score"]);
+
+      return {
+        score: {
+          name: readString(score.name, [...path, "score", "name"]),
+          objective: readString(score.objective, [...path, "score", "objective"]),
+        },
+      };
+    }
+
+    case "selector": {
+      const component: SelectorText = { selector: readString(value.selector, [...path, "selector"]) };
+
+      if (value.separator !== undefined) component.separator = readComponent(value.separator, [...path, "separator"]);
+      return component;
+    }
+
+    case "keybind":
+      return { keybind: readString(value.keybind, [...path, "keybind"]) };
+
+    case "nbt": {
+      const component: NBTText = { nbt: readString(value.nbt, [...path, "nbt"]) };
+
+      if (value.interpret !== undefined) component.interpret = readBoolean(value.interpret, [...path, "interpret"]);
+      if (value.separator !== undefined) component.separator = readComponent(value.separator, [...path, "separator"]);
+
+      for (const source of ["block", "entity", "storage"] as const) {
+        if (value[source] !== undefined) component[source] = readString(value[source], [...path, source]);
+      }
+
+      return component;
+    }
+  }
+}
+
+// reads the json shaped value both forms share. a list is its first component with the rest added as extras
+function readComponent(value: unknown, path: PathSegment[]): TextComponent {
+  if (typeof value === "string") return { text: value };
+  if (["number", "bigint", "boolean"].includes(typeof value)) return { text: String(value) };
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) fail("a list of text components cannot be empty", path);
+
+    const [first, ...rest] = readComponents(value, path);
+    return rest.length > 0 ? { ...first, extra: [...(first.extra ?? []), ...rest] } : first;
+  }
+
+  if (!isObject(value)) fail(`expected a text component but got ${describeValue(value)}`, path);
+
+  const component: TextComponent = { ...readContent(value, path), ...readStyle(value, path) };
+  if (value.extra !== undefined) component.extra = readComponents(value.extra, [...path, "extra"]);
+
+  return component;
+}
+
+function writeComponents(components: TextComponent[]): unknown[] {
+  return components.map(writeComponent);
+}
+
+// the json shaped value, a component with nothing but text is written as a plain string like the game does
+function writeComponent(component: TextComponent): unknown {
+  const keys = Object.keys(component).filter((key) => component[key as keyof TextComponent] !== undefined);
+  if ("text" in component && keys.length === 1) return component.text;
+
+  const value: Record<string, unknown> = {};
+
+  if ("text" in component) value.text = component.text;
+  else if ("translate" in component) {
+    value.translate = component.translate;
+    if (component.fallback !== undefined) value.fallback = component.fallback;
+    if (component.with) value.with = writeComponents(component.with);
+  } else if ("score" in component) value.score = { name: component.score.name, objective: component.score.objective };
+  else if ("selector" in component) {
+    value.selector = component.selector;
+    if (component.separator) value.separator = writeComponent(component.separator);
+  } else if ("keybind" in component) value.keybind = component.keybind;
+  else if ("nbt" in component) {
+    value.nbt = component.nbt;
+    if (component.interpret !== undefined) value.interpret = component.interpret;
+    if (component.separator) value.separator = writeComponent(component.separator);
+
+    for (const source of ["block", "entity", "storage"] as const) {
+      if (component[source] !== undefined) value[source] = component[source];
+    }
+  } else throw new Error(`${describeValue(component)} is not a text component`);
+
+  if (component.color !== undefined) value.color = component.color;
+  for (const [format] of FORMATS) if (component[format] !== undefined) value[format] = component[format];
+  if (component.font !== undefined) value.font = component.font;
+  if (component.insertion !== undefined) value.insertion = component.insertion;
+  if (component.clickEvent)
+    value.clickEvent = { action: component.clickEvent.action, value: component.clickEvent.value };
+
+  if (component.hoverEvent) {
+    const { action, contents } = component.hoverEvent;
+    value.hoverEvent = {
+      action,
+      contents: action === "show_text" ? writeComponent(contents as TextComponent) : contents,
+    };
+  }
+
+  if (component.extra && component.extra.length > 0) value.extra = writeComponents(component.extra);
+  return value;
+}
+
+// lists in nbt have one element type, the game wraps the other elements of mixed lists in a compound with an empty key
+function valueToTag(value: unknown): tags.Tag {
+  if (Array.isArray(value)) {
+    const items = value.map(valueToTag);
+    if (items.every((item) => item.getId() === items[0].getId())) return new tags.ListTag(items);
+
+    return new tags.ListTag(
+      items.map((item) => (item instanceof tags.CompoundTag ? item : new tags.CompoundTag({ "": item }))),
+      tags.Tags.TAG_Compound,
+    );
+  }
+
+  if (isObject(value)) {
+    const items = new Map<string, tags.Tag>();
+    for (const [key, item] of Object.entries(value)) items.set(key, valueToTag(item));
+
+    return new tags.CompoundTag(items);
+  }
+
+  return fromValue(value);
+}
+
+function tagToValue(tag: tags.Tag): unknown {
+  if (tag instanceof tags.ListTag)
+    return tag.getValues().map((item) => {
+      const unwrapped = item instanceof tags.CompoundTag && item.list().length === 1 ? item.get("") : null;
+      return tagToValue(unwrapped ?? item);
+    });
+
+  if (tag instanceof tags.CompoundTag) {
+    const value: Record<string, unknown> = {};
+    for (const key of tag.list()) value[key] = tagToValue(tag.get(key)!);
+
+    return value;
+  }
+
+  if (tag instanceof tags.ArrayTag) return tag.getValues().slice();
+
+  return (tag as tags.LiteralTag<unknown>).getValue();
+}
+
+// bigints and typed arrays from nbt tooltips become plain numbers and arrays
+function jsonReplacer(_key: string, value: unknown): unknown {
+  if (typeof value === "bigint") return Number(value);
+  if (ArrayBuffer.isView(value)) return Array.from(value as Int32Array, Number);
+
+  return value;
+}
+
+// reads a component from the nbt form used since 1.20.3, where strings, lists and compounds can all be components
+export function textComponentFromTag(tag: tags.Tag): TextComponent {
+  return readComponent(tagToValue(tag), []);
+}
+
+export function textComponentToTag(component: TextComponent): tags.Tag {
+  return valueToTag(writeComponent(component));
+}
+
+// reads the json form used before 1.20.3, in item names, signs and books
+export function parseTextComponent(json: string): TextComponent {
+  return readComponent(JSON.parse(json), []);
+}
+
+export function stringifyTextComponent(component: TextComponent): string {
+  return JSON.stringify(writeComponent(component), jsonReplacer);
+}
+
+interface TextRun {
+  text: string;
+  style: TextStyle;
+}
+
+function formatTranslation(format: string, args: TextComponent[], style: TextStyle, options: TextRenderOptions) {
+  const runs: TextRun[] = [];
+  let next = 0;
+  let last = 0;
+
+  for (const match of format.matchAll(/%(?:(\d+)\$)?([s%])/g)) {
+    runs.push({ text: format.slice(last, match.index), style });
+    last = match.index! + match[0].length;
+
+    if (match[2] === "%") runs.push({ text: "%", style });
+    else {
+      const index = match[1] ? Number(match[1]) - 1 : next++;
+      // like the game, a missing argument leaves the placeholder in place
+      if (args[index]) runs.push(...flatten(args[index], style, options));
+      else runs.push({ text: match[0], style });
+    }
+  }
+
+  runs.push({ text: format.slice(last), style });
+  return runs;
+}
+
+// the text of a component and its children with the style each piece ends up with
+function flatten(component: TextComponent, inherited: TextStyle, options: TextRenderOptions): TextRun[] {
+  const style: TextStyle = { ...inherited };
+
+  if (component.color !== undefined) style.color = component.color;
+  for (const [format] of FORMATS) if (component[format] !== undefined) style[format] = component[format];
+
+  let runs: TextRun[];
+
+  if ("text" in component) runs = [{ text: component.text, style }];
+  else if ("translate" in component) {
+    const format = options.translations?.[component.translate] ?? component.fallback ?? component.translate;
+    runs = formatTranslation(format, component.with ?? [], style, options);
+  } else if ("selector" in component) runs = [{ text: component.selector, style }];
+  else if ("keybind" in component) runs = [{ text: component.keybind, style }];
+  // scores and nbt are resolved by the server, unresolved ones show nothing
+  else runs = [];
+
+  for (const child of component.extra ?? []) runs.push(...flatten(child, style, options));
+  return runs.filter((run) => run.text.length > 0);
+}
+
+export function renderPlainText(component: TextComponent, options: TextRenderOptions = {}): string {
+  return flatten(component, {}, options)
+    .map((run) => run.text)
+    .join("");
+}
+
+// hex colors have no legacy code, they get the closest named color
+function legacyColorCode(color: string): string {
+  if (Object.hasOwn(COLORS, color)) return COLORS[color][0];
+
+  const rgb = parseInt(color.slice(1), 16);
+  let closest = "f";
+  let closestDistance = Infinity;
+
+  for (const [code, value] of Object.values(COLORS)) {
+    const distance =
+      (((rgb >> 16) & 0xff) - ((value >> 16) & 0xff)) ** 2 +
+      (((rgb >> 8) & 0xff) - ((value >> 8) & 0xff)) ** 2 +
+      ((rgb & 0xff) - (value & 0xff)) ** 2;
+
+    if (distance < closestDistance) {
+      closest = code;
+      closestDistance = distance;
+    }
+  }
+
+  return closest;
+}
+
+function legacyCodes(style: TextStyle): string {
+  // a color code clears the formats before it, without a color §r does
+  let codes = style.color === undefined ? "§r" : `§${legacyColorCode(style.color)}`;
+  for (const [format, code] of FORMATS) if (style[format]) codes += `§${code}`;
+
+  return codes;
+}
+
+// renders with § formatting codes, the codes are only written where the style changes
+export function renderLegacyText(component: TextComponent, options: TextRenderOptions = {}): string {
+  let rendered = "";
+  let current = "§r";
+
+  for (const run of flatten(component, {}, options)) {
+    const codes = legacyCodes(run.style);
+
+    if (codes !== current) rendered += codes;
+    rendered += run.text;
+    current = codes;
+  }
+
+  return rendered;
+}
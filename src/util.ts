@@ -1,11 +1,53 @@
 export const VALID_QUOTELESS_STRING_RE = /^[A-Za-z][A-Za-z0-9]*$/;
 export const VALID_QUOTELESS_KEY_RE = /^[A-Za-z][A-Za-z_0-9\+\-\.\_]*$/;
 
-export function stringifyTextEscaped(text: string, quotelessRegex: RegExp) {
-  if (quotelessRegex.test(text)) return text;
-  return `"${text.replaceAll("\\", "\\\\").replaceAll('"', '\\"')}"`;
+const RESERVED_WORD_RE = /^(?:true|false|(?:NaN|Infinity)[fFdD]?)$/;
+
+export function stringifyTextEscaped(
+  text: string,
+  quotelessRegex: RegExp,
+  quote: '"' | "'" = '"',
+  forceQuotes: boolean = false,
+) {
+  // unquoted true and false would read back as booleans, NaN and Infinity as numbers
+  if (!forceQuotes && quotelessRegex.test(text) && !RESERVED_WORD_RE.test(text)) return text;
+  return `${quote}${text.replaceAll("\\", "\\\\").replaceAll(quote, `\\${quote}`)}${quote}`;
 }
 
 export function stringifyByte(byte: number): string {
   return `0x${byte.toString(16).padStart(2, "0")}`;
 }
+
+export const HOST_LITTLE_ENDIAN = new Uint8Array(new Uint16Array([1]).buffer)[0] === 1;
+
+export const VALID_QUOTELESS_PATH_KEY_RE = /^[^\s."'\[\]{}]+$/;
+
+export type PathSegment = string | number;
+
+export function stringifyPath(path: PathSegment[]): string {
+  let stringified = "";
+
+  for (const segment of path) {
+    if (typeof segment === "number") stringified += `[${segment}]`;
+    else stringified += (stringified ? "." : "") + stringifyTextEscaped(segment, VALID_QUOTELESS_PATH_KEY_RE);
+  }
+
+  return stringified;
+}
+
+export const INTEGER_RANGES: Record<string, [number, number]> = {
+  byte: [-0x80, 0x7f],
+  short: [-0x8000, 0x7fff],
+  int: [-0x80000000, 0x7fffffff],
+};
+
+// short description of an arbitrary value for error messages
+export function describeValue(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  if (typeof value === "string") return `'${value}'`;
+  if (typeof value === "object" && value.constructor && value.constructor !== Object) return value.constructor.name;
+  if (typeof value === "object") return "an object";
+
+  return `${value}`;
+}
@@ -0,0 +1,252 @@
+import * as tags from "./tags";
+import { describeValue, INTEGER_RANGES, stringifyPath, type PathSegment } from "./util";
+import type { JSONTagType } from "./json";
+
+/*
+ * a hint picks the tag type for a value instead of inferring it:
+ * a type name, [hint] for a list whose elements all follow the hint,
+ * or an object of hints for the keys of a compound. keys without a hint are inferred
+ */
+export type TypeHint = JSONTagType | [TypeHint] | { [key: string]: TypeHint };
+
+export type SimpleValue =
+  number | bigint | string | Int8Array | Int32Array | BigInt64Array | SimpleValue[] | { [key: string]: SimpleValue };
+
+// plain objects, arrays, numbers, bigints (longs) and typed arrays. the result shares no state with the tag
+export function simplify(tag: tags.Tag): SimpleValue {
+  if (tag instanceof tags.CompoundTag) {
+    // without a prototype a "__proto__" key is kept as a plain property
+    const value: { [key: string]: SimpleValue } = Object.create(null);
+    for (const key of tag.list()) value[key] = simplify(tag.get(key)!);
+
+    return value;
+  }
+
+  if (tag instanceof tags.ListTag) return tag.getValues().map(simplify);
+  if (tag instanceof tags.ArrayTag) return tag.getValues().slice();
+  if (tag instanceof tags.LiteralTag) return tag.getValue();
+
+  throw new Error(`cannot simplify tag '${tag.constructor.name}'`);
+}
+
+const HINT_IDS: Record<JSONTagType, tags.Tags> = {
+  byte: tags.Tags.TAG_Byte,
+  short: tags.Tags.TAG_Short,
+  int: tags.Tags.TAG_Int,
+  long: tags.Tags.TAG_Long,
+  float: tags.Tags.TAG_Float,
+  double: tags.Tags.TAG_Double,
+  byte_array: tags.Tags.TAG_Byte_Array,
+  string: tags.Tags.TAG_String,
+  list: tags.Tags.TAG_List,
+  compound: tags.Tags.TAG_Compound,
+  int_array: tags.Tags.TAG_Int_Array,
+  long_array: tags.Tags.TAG_Long_Array,
+};
+
+const TYPE_HINTS = new Map(Object.entries(HINT_IDS).map(([hint, id]) => [id, hint as JSONTagType]));
+
+// the tag type a hint produces, so empty lists still get their element type
+function hintTagType(hint: TypeHint): tags.Tags | undefined {
+  if (Array.isArray(hint)) return tags.Tags.TAG_List;
+  if (typeof hint === "object") return tags.Tags.TAG_Compound;
+
+  return HINT_IDS[hint];
+}
+
+function hintFromTag(tag: tags.Tag): TypeHint | undefined {
+  if (tag instanceof tags.CompoundTag) {
+    const hints: { [key: string]: TypeHint } = Object.create(null);
+
+    for (const key of tag.list()) {
+      const hint = hintFromTag(tag.get(key)!);
+      if (hint !== undefined) hints[key] = hint;
+    }
+
+    return hints;
+  }
+
+  if (tag instanceof tags.ListTag) {
+    const items = tag.getValues();
+    const hint = items.length > 0 ? hintFromTag(items[0]) : TYPE_HINTS.get(tag.getElementType());
+
+    return hint === undefined ? undefined : [hint];
+  }
+
+  if (tag instanceof tags.ByteTag) return "byte";
+  if (tag instanceof tags.ShortTag) return "short";
+  if (tag instanceof tags.IntTag) return "int";
+  if (tag instanceof tags.LongTag) return "long";
+  if (tag instanceof tags.FloatTag) return "float";
+  if (tag instanceof tags.DoubleTag) return "double";
+  if (tag instanceof tags.StringTag) return "string";
+  if (tag instanceof tags.ByteArrayTag) return "byte_array";
+  if (tag instanceof tags.IntArrayTag) return "int_array";
+  if (tag instanceof tags.LongArrayTag) return "long_array";
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) return false;
+
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+class ValueConverter {
+  private path: PathSegment[] = [];
+
+  private error(reason: string): never {
+    const path = stringifyPath(this.path);
+    throw new Error(path ? `${reason} at '${path}'` : reason);
+  }
+
+  private readInteger(value: unknown, type: string): number {
+    const [min, max] = INTEGER_RANGES[type];
+
+    if (typeof value === "boolean") return value ? 1 : 0;
+    if (typeof value === "bigint") value = Number(value);
+    if (typeof value !== "number" || !Number.isInteger(value))
+      this.error(`expected an integer but got ${describeValue(value)}`);
+    if (value < min || value > max) this.error(`${value} is out of range for a ${type}`);
+
+    return value;
+  }
+
+  private readLong(value: unknown): bigint {
+    if (typeof value === "number" && Number.isSafeInteger(value)) value = BigInt(value);
+    if (typeof value !== "bigint") this.error(`expected a long but got ${describeValue(value)}`);
+    if (value !== BigInt.asIntN(64, value)) this.error(`${value} is out of range for a long`);
+
+    return value;
+  }
+
+  private readFloat(value: unknown): number {
+    if (typeof value === "bigint") return Number(value);
+    if (typeof value !== "number") this.error(`expected a number but got ${describeValue(value)}`);
+
+    return value;
+  }
+
+  private readElements<T>(value: unknown, read: (item: unknown) => T): T[] {
+    if (!Array.isArray(value) && !ArrayBuffer.isView(value))
+      this.error(`expected an array but got ${describeValue(value)}`);
+
+    return Array.from(value as ArrayLike<unknown>, (item, index) => {
+      this.path.push(index);
+      const result = read(item);
+      this.path.pop();
+
+      return result;
+    });
+  }
+
+  private convertHinted(value: unknown, hint: TypeHint): tags.Tag {
+    if (Array.isArray(hint)) return this.convertList(value, hint[0]);
+    if (typeof hint === "object") return this.convertCompound(value, hint);
+
+    switch (hint) {
+      case "byte":
+        return new tags.ByteTag(this.readInteger(value, hint));
+      case "short":
+        return new tags.ShortTag(this.readInteger(value, hint));
+      case "int":
+        return new tags.IntTag(this.readInteger(value, hint));
+      case "long":
+        return new tags.LongTag(this.readLong(value));
+      case "float":
+        return new tags.FloatTag(Math.fround(this.readFloat(value)));
+      case "double":
+        return new tags.DoubleTag(this.readFloat(value));
+      case "string":
+        if (typeof value !== "string") this.error(`expected a string but got ${describeValue(value)}`);
+        return new tags.StringTag(value);
+      case "byte_array":
+        return new tags.ByteArrayTag(this.readElements(value, (item) => this.readInteger(item, "byte")));
+      case "int_array":
+        return new tags.IntArrayTag(this.readElements(value, (item) => this.readInteger(item, "int")));
+      case "long_array":
+        return new tags.LongArrayTag(this.readElements(value, (item) => this.readLong(item)));
+      case "list":
+        return this.convertList(value);
+      case "compound":
+        return this.convertCompound(value, {});
+    }
+
+    this.error(`unknown type hint ${describeValue(hint)}`);
+  }
+
+  private convertList(value: unknown, hint?: TypeHint): tags.ListTag {
+    let elementType: tags.Tags | undefined = hint === undefined ? undefined : hintTagType(hint);
+
+    const items = this.readElements(value, (item) => {
+      const tag = this.convert(item, hint);
+
+      elementType ??= tag.getId();
+      if (tag.getId() !== elementType) this.error("list elements must all have the same type");
+
+      return tag;
+    });
+
+    return new tags.ListTag(items, elementType);
+  }
+
+  private convertCompound(value: unknown, hints: { [key: string]: TypeHint }): tags.CompoundTag {
+    const entries = value instanceof Map ? Array.from(value) : isPlainObject(value) ? Object.entries(value) : null;
+    if (!entries) this.error(`expected an object but got ${describeValue(value)}`);
+
+    const items = new Map<string, tags.Tag>();
+
+    for (const [key, item] of entries) {
+      // undefined properties are left out like JSON.stringify does
+      if (item === undefined) continue;
+
+      this.path.push(key);
+      items.set(key, this.convert(item, Object.hasOwn(hints, key) ? hints[key] : undefined));
+      this.path.pop();
+    }
+
+    return new tags.CompoundTag(items);
+  }
+
+  convert(value: unknown, hint?: TypeHint): tags.Tag {
+    if (value instanceof tags.Tag) return value;
+    if (hint !== undefined) return this.convertHinted(value, hint);
+
+    if (typeof value === "boolean") return new tags.ByteTag(value ? 1 : 0);
+    if (typeof value === "bigint") return new tags.LongTag(this.readLong(value));
+    if (typeof value === "string") return new tags.StringTag(value);
+
+    if (typeof value === "number") {
+      if (Number.isInteger(value) && value >= INTEGER_RANGES.int[0] && value <= INTEGER_RANGES.int[1])
+        return new tags.IntTag(value);
+
+      return new tags.DoubleTag(value);
+    }
+
+    if (value instanceof Int8Array || value instanceof Uint8Array) return new tags.ByteArrayTag(new Int8Array(value));
+    if (value instanceof Int32Array) return new tags.IntArrayTag(value.slice());
+    if (value instanceof BigInt64Array) return new tags.LongArrayTag(value.slice());
+
+    if (Array.isArray(value)) {
+      // a list of numbers becomes a list of doubles when any of them doesn't fit an int, lists can only have one type
+      const fitsInt = (item: number) =>
+        Number.isInteger(item) && item >= INTEGER_RANGES.int[0] && item <= INTEGER_RANGES.int[1];
+      const doubles = value.length > 0 && value.every((item) => typeof item === "number") && !value.every(fitsInt);
+
+      return this.convertList(value, doubles ? "double" : undefined);
+    }
+    if (value instanceof Map || isPlainObject(value)) return this.convertCompound(value, {});
+
+    this.error(`cannot convert ${describeValue(value)} to a tag`);
+  }
+}
+
+/*
+ * infers tags from plain values: booleans become bytes, integers that fit become ints and other numbers doubles,
+ * bigints longs, typed arrays array tags, arrays lists and objects or maps compounds. tags inside the value are kept.
+ * a template tag gives every value the type it has in the template
+ */
+export function fromValue(value: unknown, hints?: TypeHint | tags.Tag): tags.Tag {
+  const hint = hints instanceof tags.Tag ? hintFromTag(hints) : hints;
+  return new ValueConverter().convert(value, hint);
+}
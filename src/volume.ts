@@ -0,0 +1,232 @@
+import * as tags from "./tags";
+import { blockStateKey, cloneBlockState, type BlockState } from "./block";
+import type { Vector3 } from "./structure";
+
+export interface VolumeEntity {
+  // relative to the volume's lowest corner
+  pos: Vector3;
+  // the entity data including its id, without a position
+  nbt: tags.CompoundTag;
+}
+
+export interface VolumeBlockEntity {
+  x: number;
+  y: number;
+  z: number;
+  // the block entity data including its id, without a position
+  nbt: tags.CompoundTag;
+}
+
+export const AIR: BlockState = { name: "minecraft:air", properties: {} };
+
+// a copy of the compound without the keys, formats keep positions and ids next to the data in different ways
+export function withoutKeys(tag: tags.CompoundTag, keys: string[]): tags.CompoundTag {
+  const items = new Map<string, tags.Tag>();
+
+  for (const key of tag.list()) {
+    if (!keys.includes(key)) items.set(key, tag.get(key)!.clone());
+  }
+
+  return new tags.CompoundTag(items);
+}
+
+// a copy of block entity data with its position added as x, y and z, how most formats store block entities
+export function withBlockPosition(nbt: tags.CompoundTag, x: number, y: number, z: number): tags.CompoundTag {
+  const entry = withoutKeys(nbt, ["x", "y", "z"]);
+
+  entry.put("x", new tags.IntTag(x));
+  entry.put("y", new tags.IntTag(y));
+  entry.put("z", new tags.IntTag(z));
+
+  return entry;
+}
+
+/*
+ * a box of blocks every schematic format can be read into and written from, blocks are stored as indices into the
+ * palette ordered by y, then z, then x like most of the formats do
+ */
+export class BlockVolume {
+  private size: Vector3;
+  private palette: BlockState[] = [];
+  private stateIndices = new Map<string, number>();
+  private data: Uint32Array;
+  private blockEntities = new Map<number, tags.CompoundTag>();
+
+  entities: VolumeEntity[] = [];
+
+  // starts out filled with air
+  constructor(
+    size: Vector3,
+    public dataVersion?: number,
+  ) {
+    for (const length of size) {
+      if (!Number.isInteger(length) || length < 0) throw new Error(`invalid volume size ${size.join(", ")}`);
+    }
+
+    this.size = [size[0], size[1], size[2]];
+    this.data = new Uint32Array(size[0] * size[1] * size[2]);
+    this.stateIndex(AIR);
+  }
+
+  // takes over the palette and the indices, which every format decodes its blocks into
+  static fromData(size: Vector3, palette: BlockState[], data: Uint32Array, dataVersion?: number): BlockVolume {
+    const volume = new BlockVolume(size, dataVersion);
+
+    if (palette.length === 0) throw new Error("the palette is empty");
+    if (data.length !== volume.data.length)
+      throw new Error(`expected ${volume.data.length} blocks but got ${data.length}`);
+
+    for (let i = 0; i < data.length; i++) {
+      if (data[i] >= palette.length) throw new Error(`block ${i} has state ${data[i]}, which is not in the palette`);
+    }
+
+    volume.palette = [];
+    volume.stateIndices.clear();
+
+    // duplicate states are kept so the indices stay valid, lookups find the first of them
+    for (const state of palette) {
+      const key = blockStateKey(state);
+      if (!volume.stateIndices.has(key)) volume.stateIndices.set(key, volume.palette.length);
+
+      volume.palette.push(cloneBlockState(state));
+    }
+
+    volume.data = data;
+    return volume;
+  }
+
+  getSize(): Vector3 {
+    return [...this.size];
+  }
+
+  getPalette(): BlockState[] {
+    return this.palette.map(cloneBlockState);
+  }
+
+  // a copy of the palette indices of every block
+  getData(): Uint32Array {
+    return this.data.slice();
+  }
+
+  contains(x: number, y: number, z: number): boolean {
+    return (
+      Number.isInteger(x) &&
+      Number.isInteger(y) &&
+      Number.isInteger(z) &&
+      x >= 0 &&
+      y >= 0 &&
+      z >= 0 &&
+      x < this.size[0] &&
+      y < this.size[1] &&
+      z < this.size[2]
+    );
+  }
+
+  private index(x: number, y: number, z: number): number {
+    if (!this.contains(x, y, z)) throw new Error(`${x}, ${y}, ${z} is outside of the volume`);
+    return (y * this.size[2] + z) * this.size[0] + x;
+  }
+
+  private stateIndex(state: BlockState): number {
+    const key = blockStateKey(state);
+    let index = this.stateIndices.get(key);
+
+    if (index === undefined) {
+      index = this.palette.length;
+
+      this.palette.push(cloneBlockState(state));
+      this.stateIndices.set(key, index);
+    }
+
+    return index;
+  }
+
+  getBlock(x: number, y: number, z: number): BlockState {
+    return cloneBlockState(this.palette[this.data[this.index(x, y, z)]]);
+  }
+
+  // the block entity data is replaced along with the block
+  setBlock(x: number, y: number, z: number, state: BlockState, nbt: tags.CompoundTag | null = null) {
+    const index = this.index(x, y, z);
+    this.data[index] = this.stateIndex(state);
+
+    if (nbt) this.blockEntities.set(index, nbt);
+    else this.blockEntities.delete(index);
+  }
+
+  getBlockEntity(x: number, y: number, z: number): tags.CompoundTag | null {
+    return this.blockEntities.get(this.index(x, y, z)) ?? null;
+  }
+
+  setBlockEntity(x: number, y: number, z: number, nbt: tags.CompoundTag | null) {
+    const index = this.index(x, y, z);
+
+    if (nbt) this.blockEntities.set(index, nbt);
+    else this.blockEntities.delete(index);
+  }
+
+  listBlockEntities(): VolumeBlockEntity[] {
+    const [width, , length] = this.size;
+
+    return Array.from(this.blockEntities.keys())
+      .sort((a, b) => a - b)
+      .map((index) => ({
+        x: index % width,
+        y: Math.floor(index / (width * length)),
+        z: Math.floor(index / width) % length,
+        nbt: this.blockEntities.get(index)!,
+      }));
+  }
+
+  // copies every block, block entity and entity of the other volume into this one, offset is where its corner goes
+  paste(other: BlockVolume, offset: Vector3 = [0, 0, 0]) {
+    const [width, height, length] = other.size;
+    const indices = other.palette.map((state) => this.stateIndex(state));
+
+    for (let y = 0; y < height; y++) {
+      for (let z = 0; z < length; z++) {
+        for (let x = 0; x < width; x++) {
+          const target = this.index(x + offset[0], y + offset[1], z + offset[2]);
+
+          this.data[target] = indices[other.data[(y * length + z) * width + x]];
+          this.blockEntities.delete(target);
+        }
+      }
+    }
+
+    for (const blockEntity of other.listBlockEntities()) {
+      this.setBlockEntity(
+        blockEntity.x + offset[0],
+        blockEntity.y + offset[1],
+        blockEntity.z + offset[2],
+        blockEntity.nbt,
+      );
+    }
+
+    for (const entity of other.entities) {
+      this.entities.push({
+        pos: [entity.pos[0] + offset[0], entity.pos[1] + offset[1], entity.pos[2] + offset[2]],
+        nbt: entity.nbt,
+      });
+    }
+  }
+
+  // drops states no block uses and merges duplicates
+  compactPalette() {
+    const remapped = new Int32Array(this.palette.length).fill(-1);
+    const palette = this.palette;
+
+    this.palette = [];
+    this.stateIndices.clear();
+
+    for (let i = 0; i < this.data.length; i++) {
+      const state = this.data[i];
+      if (remapped[state] < 0) remapped[state] = this.stateIndex(palette[state]);
+
+      this.data[i] = remapped[state];
+    }
+
+    // an empty volume still has a state to point at
+    if (this.palette.length === 0) this.stateIndex(AIR);
+  }
+}
@@ -1,16 +1,164 @@
 import * as NBT from "../src";
 import * as fs from "node:fs/promises";
-import { stringifyByte } from "../src/util";
+import assert from "node:assert/strict";
 
 const fileBytes = await fs.readFile("test/bigtest.nbt");
 const parsed = NBT.parseNBT(new Uint8Array(fileBytes));
-const value = NBT.parseSNBT(parsed.stringify());
-console.log(value.stringify());
+const value = NBT.parseSNBT(parsed.tag.stringify());
+assert.ok(value.equals(parsed.tag), "bigtest survives snbt");
 
-// console.log(NBT.parseSNBT(`{ numberValue: 3.123d, stringValue: "hi", list: [B; true, false, false] }`));
+// every encoding dumps the file back to the same tag
+for (const encoding of ["big-endian", "little-endian", "varint"] as const) {
+  const bytes = NBT.dump(parsed, { encoding });
+  const back = NBT.parseNBT(bytes, { encoding });
 
-// const data = NBT.parseSNBT(`{hello: { world: 123b, arr: [I; 1b, 3b, 5b] } }`);
-// const dumped = NBT.dump(data);
+  assert.equal(back.name, parsed.name);
+  assert.ok(back.tag.equals(parsed.tag), `${encoding} round trip`);
+}
 
-// const parsed = NBT.parseNBT(dumped);
-// console.log(parsed.stringify());
+// the network format drops the root name
+const network = NBT.parseNBT(NBT.dump(parsed, { network: true }), { network: true });
+assert.equal(network.name, "");
+assert.ok(network.tag.equals(parsed.tag), "network round trip");
+
+// compressed files are detected and inflated when parsed
+for (const compression of ["gzip", "zlib"] as const) {
+  const bytes = await NBT.dumpAsync(parsed, { compression });
+
+  assert.equal(NBT.detectCompression(bytes), compression);
+  assert.ok((await NBT.parseNBTAsync(bytes)).tag.equals(parsed.tag), `${compression} round trip`);
+}
+
+// chunks survive being written to a region file and read back from its bytes
+const region = new NBT.RegionFile();
+region.writeChunk(0, 0, parsed, { compression: "zlib", timestamp: 1 });
+region.writeChunk(31, 5, parsed, { compression: "gzip" });
+region.writeChunk(3, 3, parsed, { compression: "none" });
+region.deleteChunk(3, 3);
+
+const reread = new NBT.RegionFile(region.dump());
+assert.deepEqual(reread.listChunks(), [
+  [0, 0],
+  [31, 5],
+]);
+assert.equal(reread.getTimestamp(0, 0), 1);
+assert.ok(reread.readChunk(0, 0)!.tag.equals(parsed.tag), "zlib chunk round trip");
+assert.ok(reread.readChunk(31, 5)!.tag.equals(parsed.tag), "gzip chunk round trip");
+
+// stringify output has to parse back to the same tag
+function assertSNBTRoundTrip(tag: NBT.Tag, options?: NBT.SNBTParseOptions) {
+  const text = tag.stringify();
+  const back = NBT.parseSNBT(text, options);
+
+  assert.ok(back.equals(tag), `${text} parsed back as ${back.stringify()}`);
+}
+
+for (const grammar of ["legacy", "modern"] as const) {
+  for (const number of [NaN, Infinity, -Infinity]) {
+    assertSNBTRoundTrip(new NBT.FloatTag(number), { grammar });
+    assertSNBTRoundTrip(new NBT.DoubleTag(number), { grammar });
+  }
+}
+
+for (const grammar of ["legacy", "modern"] as const) {
+  assertSNBTRoundTrip(new NBT.DoubleTag(1e21), { grammar });
+  assertSNBTRoundTrip(new NBT.DoubleTag(-2.5e-300), { grammar });
+  assertSNBTRoundTrip(new NBT.FloatTag(Math.fround(1e-7)), { grammar });
+}
+
+// the legacy grammar keeps a bare NaN as a string, like the game did
+assert.ok(NBT.parseSNBT("NaN", { grammar: "legacy" }) instanceof NBT.StringTag);
+
+// both json formats give back the same tag, typed json also after going through a string
+const typed = NBT.toJSON(parsed);
+assert.ok(NBT.fromJSON(JSON.parse(JSON.stringify(typed))).equals(parsed.tag), "typed json round trip");
+assert.ok(
+  NBT.fromJSON(NBT.toJSON(parsed, { format: "compat" }), { format: "compat" }).equals(parsed.tag),
+  "compat json round trip",
+);
+
+// codecs keep odd keys and the element type of empty lists
+const scores = NBT.codecs.map(NBT.codecs.list(NBT.codecs.int));
+const decoded = scores.decode(NBT.parseSNBT('{"__proto__":[1,2],empty:[]}'));
+const encoded = scores.encode(decoded) as NBT.CompoundTag;
+
+assert.deepEqual(Object.keys(decoded), ["__proto__", "empty"]);
+assert.deepEqual(decoded["__proto__"], [1, 2]);
+assert.equal((encoded.get("empty") as NBT.ListTag<NBT.Tag>).getElementType(), NBT.Tags.TAG_Int);
+assert.throws(
+  () => NBT.codecs.list(NBT.codecs.union(NBT.codecs.int, NBT.codecs.string)).encode([1, "a"]),
+  NBT.CodecError,
+);
+
+// a diff applied to the old tree gives the new one
+const edited = parsed.tag.clone() as NBT.CompoundTag;
+edited.put("added", new NBT.StringTag("new"));
+edited.put("shortTest", new NBT.IntTag(1));
+edited.delete("byteTest");
+(edited.get("listTest (long)") as NBT.ListTag).splice(1, 2, new NBT.LongTag(7n));
+
+assert.ok(NBT.applyPatch(parsed.tag.clone(), NBT.diff(parsed.tag, edited)).equals(edited), "patch round trip");
+
+// freezing a list leaves the array it was built from alone
+const listItems = [new NBT.IntTag(1)];
+new NBT.ListTag(listItems).freeze();
+listItems.push(new NBT.IntTag(2));
+
+// the changes a migration reports replay the migration, also for items nested in items
+const migrator = new NBT.Migrator();
+migrator.registerNested("item_stack", (item) => {
+  const inner = item.get("inner");
+  return inner instanceof NBT.CompoundTag ? [[inner, "item_stack"]] : [];
+});
+migrator.register({
+  version: 2,
+  type: "item_stack",
+  name: "wrap",
+  apply: (item) => {
+    const inner = item.get("inner");
+    if (inner) item.put("contents", new NBT.ListTag([inner]));
+    item.delete("inner");
+    item.put("Count", new NBT.ByteTag(1));
+  },
+});
+
+const item = NBT.parseSNBT("{DataVersion:1,id:a,inner:{id:b,inner:{id:c}}}") as NBT.CompoundTag;
+const original = item.clone();
+const report = migrator.migrate(item, "item_stack");
+const replayed = NBT.applyPatch(original, report.applied[0].changes) as NBT.CompoundTag;
+
+replayed.put("DataVersion", new NBT.IntTag(2));
+assert.ok(replayed.equals(item), NBT.renderPatch(NBT.diff(replayed, item)));
+
+// items go to components and back, enchantments without a level are dropped on the way
+const legacyItem = NBT.parseSNBT(
+  '{id:"minecraft:diamond_sword",Count:1b,tag:{Damage:5,Enchantments:[{id:"minecraft:sharpness",lvl:3s},{id:"minecraft:unbreaking",lvl:0s}]}}',
+);
+const componentItem = NBT.toComponentItem(legacyItem);
+
+assert.deepEqual(componentItem.warnings, ["has level 0, it was dropped (in 'tag.Enchantments[1]')"]);
+assert.ok(
+  NBT.toLegacyItem(componentItem.item).item.equals(
+    NBT.parseSNBT(
+      '{id:"minecraft:diamond_sword",Count:1b,tag:{Enchantments:[{id:"minecraft:sharpness",lvl:3s}],Damage:5}}',
+    ),
+  ),
+);
+
+// text components go through nbt and json unchanged
+const component: NBT.TextComponent = {
+  translate: "chat.type.text",
+  with: [
+    { text: "Steve", color: "gold", clickEvent: { action: "suggest_command", value: "/msg Steve " } },
+    { text: "hi" },
+  ],
+  extra: [{ keybind: "key.jump", bold: true }],
+};
+
+assert.deepEqual(NBT.textComponentFromTag(NBT.textComponentToTag(component)), component);
+assert.deepEqual(NBT.parseTextComponent(NBT.stringifyTextComponent(component)), component);
+
+// long runs of whitespace don't grow the stack
+assert.ok(NBT.parseSNBT("{a:" + " ".repeat(200000) + "1b}").equals(NBT.parseSNBT("{a:1b}")));
+
+console.log("ok");